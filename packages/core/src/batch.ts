@@ -1,33 +1,81 @@
-import { BatchError } from './errors';
-import { createIndexedMatcher, isIndexed, normalizeMatch } from './match';
-import { microtask, wait } from './schedulers';
+import { createCache } from './cache';
+import { createCircuit } from './circuit';
+import { BatchError, CircuitOpenError, TimeoutError } from './errors';
+import type { Grouped } from './grouped';
+import {
+  createIndexedMatcher,
+  createKeyIndexer,
+  groupResults,
+  indexResults,
+  isGrouped,
+  isIndexed,
+  isOrdered,
+  normalizeMatch,
+} from './match';
+import { createRetryPolicy, sleep } from './retry';
+import { currentRound } from './rounds';
+import { microtask, onIdle, wait } from './schedulers';
+import { currentScopeId } from './scoped';
 import { createTracer, hasDevtoolsHook, registerBatcher } from './trace';
 import type {
   Batcher,
   BatchFn,
   BatchOptions,
+  BatchResult,
+  CacheOptions,
+  CircuitOptions,
+  FieldMatch,
   GetOptions,
   Match,
   PendingRequest,
+  Priority,
   Scheduler,
+  SchedulerContext,
+  ScheduleTrigger,
   TraceEvent,
 } from './types';
 
 export function batch<K, V>(
   fn: BatchFn<K, V>,
   match: Match<K, V>,
+  options?: BatchOptions<K>,
+): Batcher<K, V>;
+export function batch<K, V>(
+  fn: BatchFn<K, V>,
+  match: Grouped<FieldMatch<V>>,
+  options?: BatchOptions<K>,
+): Batcher<K, V[]>;
+export function batch<K, V>(
+  fn: BatchFn<K, V>,
+  match: Match<K, V> | Grouped<FieldMatch<V>>,
   options: BatchOptions<K> = {},
-): Batcher<K, V> {
+): Batcher<K, V | V[]> {
+  // Grouped matches resolve every matching row, other matches a single row.
+  type R = V | V[];
+
   const {
     wait: waitMs,
     schedule,
     max,
+    concurrency = 1,
     key: keyFn = (k: K) => k,
-    name,
+    name: baseName,
     trace: traceHandler,
+    cache: cacheOptions,
+    retry: retryOptions,
+    timeout,
+    circuit: circuitOptions,
+    lowSchedule,
+    group: groupFn,
   } = options;
 
+  // Batchers created for a scope carry its ID, so concurrent requests can be
+  // told apart in traces and devtools.
+  const scopeId = currentScopeId();
+  const name = scopeId ? `${baseName ?? 'batch'}@${scopeId}` : baseName;
+
   const scheduler: Scheduler = schedule ?? (waitMs ? wait(waitMs) : microtask);
+  const lowScheduler: Scheduler = lowSchedule ?? onIdle();
 
   let devtoolsEmitter: ((event: TraceEvent) => void) | undefined;
   let creationStack: string | undefined;
@@ -55,25 +103,236 @@ export function batch<K, V>(
     return devtoolsEmitter;
   });
 
+  const resolvedCacheOptions = cacheOptions
+    ? cacheOptions === true
+      ? {}
+      : (cacheOptions as CacheOptions<R>)
+    : null;
+  if (resolvedCacheOptions?.store && groupFn) {
+    throw new BatchError(
+      'A custom cache store cannot be combined with `group`, since each group needs its own cache.',
+    );
+  }
+
+  // Each group label gets its own cache, so a row fetched with one group's
+  // metadata is never served to another, and cache keys stay as `key` made them.
+  const caches = new Map<
+    string | undefined,
+    ReturnType<typeof createCache<R>>
+  >();
+
+  function cacheFor(group: string | undefined) {
+    if (!resolvedCacheOptions) return null;
+    let cache = caches.get(group);
+    if (!cache) {
+      cache = createCache(resolvedCacheOptions);
+      caches.set(group, cache);
+    }
+    return cache;
+  }
+
+  const retry = retryOptions ? createRetryPolicy(retryOptions) : null;
+
+  const circuit = circuitOptions
+    ? createCircuit(
+        circuitOptions === true ? {} : (circuitOptions as CircuitOptions),
+        (state, previous) => tracer.emit({ type: 'circuit', state, previous }),
+      )
+    : null;
+
   const matchFn = normalizeMatch(match);
   const isIndexedMatch = isIndexed(match);
-  const indexedMatcher = isIndexedMatch ? createIndexedMatcher<K, V>() : null;
+  const indexedMatcher = isIndexedMatch
+    ? createIndexedMatcher<K, V>(keyFn)
+    : null;
+  const isOrderedMatch = isOrdered(match);
+  const isGroupedMatch = isGrouped(match);
+  const createIndexer = createKeyIndexer(match, keyFn);
+
+  // Requests waiting for a scheduler. Each group has a main lane, plus a low
+  // lane once it sees a low-priority get.
+  interface Lane {
+    readonly group: string | undefined;
+    readonly low: boolean;
+    readonly scheduler: Scheduler;
+    queue: PendingRequest<K, R>[];
+    readonly pendingKeys: Set<unknown>;
+    cleanup: (() => void) | null;
+    isScheduled: boolean;
+    scheduledBatchId: string | null;
+    queueStartedAt: number;
+    readonly enqueueListeners: Set<() => void>;
+    readonly context: SchedulerContext;
+    /** Earliest `deadline` among the queued requests. */
+    deadline: number;
+    deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Set while a check for a full queue waits for the end of the tick. */
+    sizeCheckQueued: boolean;
+  }
 
-  let queue: PendingRequest<K, V>[] = [];
-  const pendingKeys = new Set<unknown>();
-  const activeRequests = new Set<PendingRequest<K, V>>();
-  let cleanup: (() => void) | null = null;
-  let isScheduled = false;
+  const lanes = new Map<string | undefined, Lane>();
+  const lowLanes = new Map<string | undefined, Lane>();
+
+  function getLane(group: string | undefined, low = false): Lane {
+    const laneMap = low ? lowLanes : lanes;
+    const existing = laneMap.get(group);
+    if (existing) return existing;
+
+    const lane: Lane = {
+      group,
+      low,
+      scheduler: low ? lowScheduler : scheduler,
+      queue: [],
+      pendingKeys: new Set(),
+      cleanup: null,
+      isScheduled: false,
+      scheduledBatchId: null,
+      queueStartedAt: 0,
+      enqueueListeners: new Set(),
+      deadline: Number.POSITIVE_INFINITY,
+      deadlineTimer: undefined,
+      sizeCheckQueued: false,
+      context: {
+        get size() {
+          return lane.pendingKeys.size;
+        },
+        get firstEnqueuedAt() {
+          return lane.queueStartedAt;
+        },
+        onEnqueue(listener) {
+          const subscription = () => listener();
+          lane.enqueueListeners.add(subscription);
+          return () => {
+            lane.enqueueListeners.delete(subscription);
+          };
+        },
+      },
+    };
+    laneMap.set(group, lane);
+    return lane;
+  }
+
+  // Forgets a lane with nothing queued or scheduled, so a batcher serving
+  // many groups doesn't keep one lane per group it has ever seen.
+  function releaseLane(lane: Lane): void {
+    if (lane.queue.length > 0 || lane.isScheduled) return;
+    const laneMap = lane.low ? lowLanes : lanes;
+    if (laneMap.get(lane.group) === lane) {
+      laneMap.delete(lane.group);
+    }
+  }
+
+  function allLanes(): Lane[] {
+    return [...lanes.values(), ...lowLanes.values()];
+  }
+
+  function enqueueKey(lane: Lane, cacheKey: unknown): void {
+    if (lane.pendingKeys.size === 0) {
+      lane.queueStartedAt = performance.now();
+    }
+    lane.pendingKeys.add(cacheKey);
+  }
+
+  // Picks the lane for a new request and records its key there. Low-priority
+  // keys already queued in the main lane simply join it.
+  function enqueue(
+    key: K,
+    cacheKey: unknown,
+    group: string | undefined,
+    priority: Priority,
+  ): Lane {
+    const main = getLane(group);
+    const lane =
+      priority === 'low' && !main.pendingKeys.has(cacheKey)
+        ? getLane(group, true)
+        : main;
+
+    if (lane.pendingKeys.has(cacheKey)) {
+      tracer.emit({ type: 'dedup', key });
+    } else if (
+      lane === main &&
+      lowLanes.get(group)?.pendingKeys.has(cacheKey)
+    ) {
+      tracer.emit({ type: 'dedup', key });
+      promote(main, cacheKey);
+    } else {
+      enqueueKey(lane, cacheKey);
+    }
+    return lane;
+  }
+
+  // Moves low-priority requests for `cacheKey` to the main lane once a more
+  // urgent get asks for the same key.
+  function promote(main: Lane, cacheKey: unknown): void {
+    const low = lowLanes.get(main.group);
+    if (!low) return;
+    const lowDeadline = low.deadline;
+
+    low.pendingKeys.delete(cacheKey);
+    const promoted = low.queue.filter((req) => keyFn(req.key) === cacheKey);
+    low.queue = low.queue.filter((req) => keyFn(req.key) !== cacheKey);
+    if (low.queue.length === 0) {
+      cancelScheduler(low);
+      releaseLane(low);
+    }
+
+    enqueueKey(main, cacheKey);
+    main.queue.push(...promoted);
+    armDeadline(main, lowDeadline);
+  }
+
+  // Moving average of resolve durations, used to dispatch ahead of deadlines.
+  let expectedDuration = 0;
+  let hasResolved = false;
+
+  function observeDuration(duration: number): void {
+    expectedDuration = hasResolved
+      ? expectedDuration + (duration - expectedDuration) * 0.2
+      : duration;
+    hasResolved = true;
+  }
+
+  function isDue(deadline: number): boolean {
+    return deadline - Date.now() <= expectedDuration;
+  }
+
+  // Dispatches the lane once only the expected batch duration is left before
+  // its earliest deadline.
+  function armDeadline(lane: Lane, deadline: number): void {
+    if (deadline >= lane.deadline) return;
+    lane.deadline = deadline;
+    clearTimeout(lane.deadlineTimer);
+    lane.deadlineTimer = setTimeout(
+      () => {
+        lane.deadlineTimer = undefined;
+        dispatchNow(lane, 'deadline');
+      },
+      Math.max(0, deadline - Date.now() - expectedDuration),
+    );
+  }
+
+  function clearDeadline(lane: Lane): void {
+    clearTimeout(lane.deadlineTimer);
+    lane.deadlineTimer = undefined;
+    lane.deadline = Number.POSITIVE_INFINITY;
+  }
+
+  const activeRequests = new Set<PendingRequest<K, R>>();
 
   interface InFlightChunk {
     readonly batchId: string;
+    readonly group: string | undefined;
     readonly controller: AbortController;
-    readonly requests: readonly PendingRequest<K, V>[];
+    requests: PendingRequest<K, R>[];
+    readonly keyToRequests: Map<unknown, PendingRequest<K, R>[]>;
   }
 
   const inFlightChunks = new Set<InFlightChunk>();
+  // Cache keys of dispatched chunks, so later gets join the pending result
+  // instead of fetching the key again.
+  const inFlightKeys = new Map<unknown, InFlightChunk>();
   const requestToInFlightChunk = new WeakMap<
-    PendingRequest<K, V>,
+    PendingRequest<K, R>,
     InFlightChunk
   >();
 
@@ -81,73 +340,224 @@ export function batch<K, V>(
     return new DOMException('Aborted', 'AbortError');
   }
 
-  function rejectAsAborted(request: PendingRequest<K, V>): void {
+  function createCircuitOpenError(): CircuitOpenError {
+    return new CircuitOpenError(
+      `Circuit is open${name ? ` for ${name}` : ''}. Failing fast until the batch function recovers.`,
+    );
+  }
+
+  function timeoutReason(signal: AbortSignal): TimeoutError | undefined {
+    return signal.reason instanceof TimeoutError ? signal.reason : undefined;
+  }
+
+  function rejectAsAborted(request: PendingRequest<K, R>): void {
     if (request.aborted) return;
     request.aborted = true;
     request.reject(createAbortError());
   }
 
-  function scheduleDispatch(): void {
-    if (isScheduled || queue.length === 0) return;
+  function scheduleDispatch(lane: Lane): void {
+    if (lane.queue.length === 0) return;
+
+    // After a size-triggered dispatch the scheduler may still be armed, so
+    // later keys get a fresh batch ID but reuse the pending scheduler.
+    if (lane.scheduledBatchId === null) {
+      lane.scheduledBatchId = tracer.nextBatchId();
+      tracer.emit({
+        type: 'schedule',
+        batchId: lane.scheduledBatchId,
+        size: lane.queue.length,
+        trigger: 'scheduler',
+        window: lane.scheduler.window,
+        group: lane.group,
+      });
+    }
+
+    if (lane.isScheduled) {
+      for (const listener of [...lane.enqueueListeners]) {
+        listener();
+      }
+      return;
+    }
+    lane.isScheduled = true;
+
+    const stop = lane.scheduler(() => {
+      if (!lane.isScheduled) return;
+      lane.isScheduled = false;
+      lane.cleanup = null;
+      lane.enqueueListeners.clear();
+      dispatch(lane, takeScheduledBatchId(lane));
+    }, lane.context);
+
+    // Schedulers may dispatch synchronously, before returning their cleanup.
+    if (lane.isScheduled) {
+      lane.cleanup = stop;
+    }
+  }
+
+  // Inside `batchScope()`, the round decides when the lane goes out. Low
+  // lanes, and lanes whose scheduler is already armed, keep their scheduler.
+  function holdOrSchedule(lane: Lane): void {
+    const round = lane.low || lane.isScheduled ? undefined : currentRound();
+    const held = round?.hold(lane, () => {
+      if (lane.queue.length > 0) {
+        dispatchNow(lane, 'round');
+      }
+    });
+    if (!held) {
+      scheduleDispatch(lane);
+    }
+  }
 
-    isScheduled = true;
-    const batchId = tracer.nextBatchId();
+  function takeScheduledBatchId(lane: Lane): string | undefined {
+    const batchId = lane.scheduledBatchId ?? undefined;
+    lane.scheduledBatchId = null;
+    return batchId;
+  }
+
+  // Dispatches ahead of the scheduler. A batch that was already scheduled is
+  // announced again with the new trigger. A `size` trigger sends only full
+  // chunks and leaves the scheduler armed for the rest; other triggers flush
+  // the lane like `flush()`.
+  function dispatchNow(
+    lane: Lane,
+    trigger: Exclude<ScheduleTrigger, 'scheduler'>,
+  ): void {
+    // The scheduler may have sent the lane already; nothing to announce.
+    if (lane.queue.length === 0) {
+      clearDeadline(lane);
+      return;
+    }
+
+    const batchId = takeScheduledBatchId(lane) ?? tracer.nextBatchId();
+    const keyLimit =
+      trigger === 'size' && max
+        ? Math.floor(lane.pendingKeys.size / max) * max
+        : undefined;
+    if (trigger !== 'size') {
+      cancelScheduler(lane);
+    }
 
     tracer.emit({
       type: 'schedule',
       batchId,
-      size: queue.length,
+      size: lane.queue.length,
+      trigger,
+      window: lane.scheduler.window,
+      group: lane.group,
     });
 
-    cleanup = scheduler(() => {
-      isScheduled = false;
-      dispatch(batchId);
-    });
+    dispatch(lane, batchId, keyLimit);
+
+    // Announce the keys left behind under a new batch ID.
+    if (lane.queue.length > 0 && lane.isScheduled) {
+      scheduleDispatch(lane);
+    }
   }
 
-  async function dispatch(batchId?: string): Promise<void> {
-    const activeQueue = queue.filter((req) => !req.aborted);
+  // Full queues are checked once the current tick has queued its keys, so a
+  // `get()` of many keys becomes one dispatch split into chunks.
+  function queueSizeCheck(lane: Lane): void {
+    if (lane.sizeCheckQueued) return;
+    lane.sizeCheckQueued = true;
+    queueMicrotask(() => {
+      lane.sizeCheckQueued = false;
+      if (max && max > 0 && lane.pendingKeys.size >= max) {
+        dispatchNow(lane, 'size');
+      }
+    });
+  }
 
-    if (activeQueue.length === 0) {
-      queue = [];
-      pendingKeys.clear();
-      return;
+  function cancelScheduler(lane: Lane): void {
+    if (lane.cleanup) {
+      lane.cleanup();
+      lane.cleanup = null;
     }
+    lane.isScheduled = false;
+    lane.scheduledBatchId = null;
+    lane.enqueueListeners.clear();
+    clearDeadline(lane);
+  }
 
-    if (cleanup) {
-      cleanup();
-      cleanup = null;
+  // Sends the lane's queue, or with `keyLimit` only the requests for its
+  // first `keyLimit` keys.
+  async function dispatch(
+    lane: Lane,
+    batchId?: string,
+    keyLimit?: number,
+  ): Promise<void> {
+    const activeQueue = lane.queue.filter((req) => !req.aborted);
+    let batch = activeQueue;
+
+    if (keyLimit !== undefined && keyLimit < lane.pendingKeys.size) {
+      const taken = new Set([...lane.pendingKeys].slice(0, keyLimit));
+      batch = activeQueue.filter((req) => taken.has(keyFn(req.key)));
+      lane.queue = activeQueue.filter((req) => !taken.has(keyFn(req.key)));
+      for (const cacheKey of taken) {
+        lane.pendingKeys.delete(cacheKey);
+      }
+    } else {
+      clearDeadline(lane);
+      lane.queue = [];
+      lane.pendingKeys.clear();
     }
-    isScheduled = false;
+    releaseLane(lane);
+
+    if (batch.length === 0) return;
 
-    const batch = activeQueue;
     for (const request of batch) {
       activeRequests.add(request);
     }
-    queue = [];
-    pendingKeys.clear();
 
-    const chunks: PendingRequest<K, V>[][] = [];
+    const chunks: PendingRequest<K, R>[][] = [];
     if (max && max > 0) {
-      for (let i = 0; i < batch.length; i += max) {
-        chunks.push(batch.slice(i, i + max));
+      // Chunks hold up to `max` unique keys; duplicates join their key's chunk.
+      const chunkByKey = new Map<unknown, PendingRequest<K, R>[]>();
+      let current: PendingRequest<K, R>[] = [];
+      let currentSize = 0;
+      for (const request of batch) {
+        const cacheKey = keyFn(request.key);
+        const existing = chunkByKey.get(cacheKey);
+        if (existing) {
+          existing.push(request);
+          continue;
+        }
+        if (currentSize === 0 || currentSize === max) {
+          current = [];
+          currentSize = 0;
+          chunks.push(current);
+        }
+        current.push(request);
+        currentSize++;
+        chunkByKey.set(cacheKey, current);
       }
     } else {
       chunks.push(batch);
     }
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunkBatchId =
-        i === 0 ? (batchId ?? tracer.nextBatchId()) : tracer.nextBatchId();
-      await processChunk(chunks[i], chunkBatchId);
-    }
+    let nextChunk = 0;
+    const runChunks = async (): Promise<void> => {
+      while (nextChunk < chunks.length) {
+        const i = nextChunk++;
+        const chunkBatchId =
+          i === 0 ? (batchId ?? tracer.nextBatchId()) : tracer.nextBatchId();
+        await processChunk(chunks[i], chunkBatchId, lane);
+      }
+    };
+
+    // `concurrency` limits the chunks of this dispatch only; separate
+    // dispatches never wait on each other.
+    const workers = Math.min(Math.max(1, concurrency), chunks.length);
+    await Promise.all(Array.from({ length: workers }, runChunks));
   }
 
   async function processChunk(
-    chunk: PendingRequest<K, V>[],
+    chunk: PendingRequest<K, R>[],
     batchId: string,
+    lane: Lane,
   ): Promise<void> {
-    const keyToRequests = new Map<unknown, PendingRequest<K, V>[]>();
+    const { group } = lane;
+    const keyToRequests = new Map<unknown, PendingRequest<K, R>[]>();
     const uniqueKeys: K[] = [];
 
     for (const request of chunk) {
@@ -166,95 +576,234 @@ export function batch<K, V>(
 
     if (uniqueKeys.length === 0) return;
 
+    if (circuit && !circuit.acquire()) {
+      const error = createCircuitOpenError();
+      tracer.emit({ type: 'error', batchId, error });
+      for (const request of chunk) {
+        if (!request.aborted) request.reject(error);
+      }
+      return;
+    }
+
     tracer.emit({
       type: 'dispatch',
       batchId,
       keys: uniqueKeys,
+      group,
     });
 
     const controller = new AbortController();
     const signal = controller.signal;
-    const inFlight: InFlightChunk = { batchId, controller, requests: chunk };
+    const inFlight: InFlightChunk = {
+      batchId,
+      group,
+      controller,
+      requests: chunk,
+      keyToRequests,
+    };
     inFlightChunks.add(inFlight);
     for (const request of chunk) {
       requestToInFlightChunk.set(request, inFlight);
     }
+    for (const cacheKey of keyToRequests.keys()) {
+      inFlightKeys.set(cacheKey, inFlight);
+    }
+
+    // Rejects the call in progress, so a batch function that never settles
+    // still times out. Its late result is ignored.
+    let stopWaiting: ((error: Error) => void) | undefined;
+
+    const timer =
+      timeout && timeout > 0
+        ? setTimeout(() => {
+            tracer.emit({ type: 'timeout', batchId, timeout });
+            const error = new TimeoutError(
+              `Batch ${batchId} timed out after ${timeout}ms`,
+              timeout,
+            );
+            controller.abort(error);
+            stopWaiting?.(error);
+          }, timeout)
+        : undefined;
 
-    const startedAt = performance.now();
+    let keys = uniqueKeys;
+    let attempt = 1;
+    let failed = 0;
+    let missing = 0;
+    // Outcome reported to the circuit breaker; aborts leave it `undefined`.
+    let chunkFailed: boolean | undefined;
+
+    // Waits out the backoff before the next attempt; rejects if the chunk is
+    // aborted meanwhile.
+    async function backoff(retryKeys: K[], error?: Error): Promise<void> {
+      attempt++;
+      const delay = retry?.delayFor(attempt) ?? 0;
+      tracer.emit({
+        type: 'retry',
+        batchId,
+        attempt,
+        keys: retryKeys,
+        delay,
+        error,
+      });
+      await sleep(delay, signal);
+    }
 
     try {
-      const results = await fn(uniqueKeys, signal);
+      while (true) {
+        // Rate-limiting schedulers hand out one call to `fn` at a time,
+        // whatever triggered the dispatch.
+        if (lane.scheduler.acquire) {
+          await lane.scheduler.acquire(signal);
+        }
+        const startedAt = performance.now();
 
-      const duration = performance.now() - startedAt;
+        let results: BatchResult<V>;
+        try {
+          const metas = keys.map((key) =>
+            (keyToRequests.get(keyFn(key)) ?? []).flatMap((request) =>
+              request.aborted || request.meta === undefined
+                ? []
+                : [request.meta],
+            ),
+          );
+          results = await new Promise<BatchResult<V>>((resolve, reject) => {
+            stopWaiting = reject;
+            fn(keys, signal, {
+              signal,
+              batchId,
+              metas,
+              attempt,
+              group,
+              link: (transportId) =>
+                tracer.emit({ type: 'transport', batchId, transportId }),
+            }).then(resolve, reject);
+          });
+        } catch (error) {
+          const err = error instanceof Error ? error : new Error(String(error));
+          if (
+            retry &&
+            !signal.aborted &&
+            attempt < retry.attempts &&
+            retry.shouldRetry(err, attempt)
+          ) {
+            await backoff(keys, err);
+            continue;
+          }
+          throw err;
+        }
 
-      if (signal.aborted) {
-        tracer.emit({ type: 'abort', batchId });
-        for (const requests of keyToRequests.values()) {
-          for (const request of requests) {
-            rejectAsAborted(request);
+        const duration = performance.now() - startedAt;
+
+        if (signal.aborted) {
+          const timeoutError = timeoutReason(signal);
+          if (timeoutError) {
+            chunkFailed = true;
+          } else {
+            tracer.emit({ type: 'abort', batchId });
           }
+          for (const requests of keyToRequests.values()) {
+            for (const request of requests) {
+              if (timeoutError) {
+                if (!request.aborted) request.reject(timeoutError);
+              } else {
+                rejectAsAborted(request);
+              }
+            }
+          }
+          return;
         }
-        return;
-      }
 
-      tracer.emit({
-        type: 'resolve',
-        batchId,
-        duration,
-      });
+        tracer.emit({
+          type: 'resolve',
+          batchId,
+          duration,
+        });
+        scheduler.observe?.({ size: keys.length, duration });
+        observeDuration(duration);
+
+        const lookup = createLookup(results, keys, batchId);
+        const canRetryMissing = retry?.retryMissing && attempt < retry.attempts;
+        const retryKeys: K[] = [];
 
-      if (isIndexedMatch && indexedMatcher) {
-        const recordResults = results as Record<string, V>;
-        for (const key of uniqueKeys) {
+        for (const key of keys) {
           const cacheKey = keyFn(key);
           const requests = keyToRequests.get(cacheKey);
           if (!requests) continue;
-          const value = indexedMatcher(recordResults, key);
+          const value = lookup(key);
+
+          if (value === undefined && canRetryMissing) {
+            // Keys nobody is waiting on anymore are not refetched.
+            if (requests.some((r) => !r.aborted)) {
+              retryKeys.push(key);
+            }
+            continue;
+          }
+
+          // Settled keys stop accepting joiners while the rest are retried.
+          if (inFlightKeys.get(cacheKey) === inFlight) {
+            inFlightKeys.delete(cacheKey);
+          }
+
+          let error: Error | undefined;
+          if (value === undefined) {
+            missing++;
+            error = new BatchError(`No result for key: ${String(key)}`);
+          } else {
+            error = findKeyError(value);
+            if (error) {
+              failed++;
+            } else {
+              cacheFor(group)?.set(cacheKey, value as R);
+            }
+          }
 
           for (const request of requests) {
             if (request.aborted) continue;
-            if (value === undefined) {
-              request.reject(
-                new BatchError(`No result for key: ${String(key)}`),
-              );
+            if (error) {
+              request.reject(error);
             } else {
-              request.resolve(value);
+              request.resolve(value as R);
             }
           }
         }
-      } else if (matchFn) {
-        const arrayResults = results as V[];
 
-        if (!Array.isArray(arrayResults)) {
-          throw new BatchError(
-            'Batch function returned a non-array result. Use `indexed` for Record responses.',
+        if (retryKeys.length > 0) {
+          // Only callers still waiting can abort the chunk from here on.
+          inFlight.requests = retryKeys.flatMap(
+            (key) => keyToRequests.get(keyFn(key)) ?? [],
           );
+          await backoff(retryKeys);
+          keys = retryKeys;
+          continue;
         }
 
-        for (const key of uniqueKeys) {
-          const cacheKey = keyFn(key);
-          const requests = keyToRequests.get(cacheKey);
-          if (!requests) continue;
-          const value = matchFn(arrayResults, key);
+        chunkFailed = false;
 
-          for (const request of requests) {
-            if (request.aborted) continue;
-            if (value === undefined) {
-              request.reject(
-                new BatchError(`No result for key: ${String(key)}`),
-              );
-            } else {
-              request.resolve(value);
-            }
-          }
+        if (failed > 0 || missing > 0) {
+          tracer.emit({
+            type: 'partial',
+            batchId,
+            failed,
+            missing,
+            total: uniqueKeys.length,
+          });
         }
+        return;
       }
     } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const timeoutError = timeoutReason(signal);
+      const err =
+        timeoutError ??
+        (error instanceof Error ? error : new Error(String(error)));
 
-      if (err.name === 'AbortError' || signal.aborted) {
+      if (timeoutError) {
+        // Already traced as a `timeout` when the timer fired.
+        chunkFailed = true;
+      } else if (err.name === 'AbortError' || signal.aborted) {
         tracer.emit({ type: 'abort', batchId });
       } else {
+        chunkFailed = true;
         tracer.emit({
           type: 'error',
           batchId,
@@ -270,36 +819,129 @@ export function batch<K, V>(
         }
       }
     } finally {
+      circuit?.record(chunkFailed);
+      clearTimeout(timer);
       inFlightChunks.delete(inFlight);
+      for (const cacheKey of keyToRequests.keys()) {
+        if (inFlightKeys.get(cacheKey) === inFlight) {
+          inFlightKeys.delete(cacheKey);
+        }
+      }
+    }
+  }
+
+  function createLookup(
+    results: BatchResult<V>,
+    uniqueKeys: K[],
+    batchId: string,
+  ): (key: K) => R | Error | undefined {
+    if (isIndexedMatch && indexedMatcher) {
+      return (key) => indexedMatcher(results, key);
+    }
+
+    if (!Array.isArray(results)) {
+      throw new BatchError(
+        'Batch function returned a non-array result. Use `indexed` for Record or Map responses.',
+      );
     }
+
+    if (isOrderedMatch) {
+      if (results.length !== uniqueKeys.length) {
+        throw new BatchError(
+          `Batch ${batchId} returned ${results.length} results for ${uniqueKeys.length} keys. \`ordered\` requires one result per key, in key order.`,
+        );
+      }
+      const byPosition = new Map<unknown, V | Error>();
+      for (let i = 0; i < uniqueKeys.length; i++) {
+        byPosition.set(keyFn(uniqueKeys[i]), results[i]);
+      }
+      return (key) => byPosition.get(keyFn(key));
+    }
+
+    if (createIndexer) {
+      const indexer = createIndexer();
+
+      if (isGroupedMatch) {
+        // Keys without rows resolve to an empty group rather than rejecting.
+        const groups = groupResults(results, indexer.rowKey);
+        return (key) =>
+          (groups.get(indexer.lookupKey(key)) as V[] | undefined) ?? [];
+      }
+
+      // Error rows are matched like any other row, so they need the match key.
+      const index = indexResults(results, indexer.rowKey);
+      return (key) => index.get(indexer.lookupKey(key));
+    }
+
+    const rows = results as V[];
+    return (key) => matchFn?.(rows, key);
+  }
+
+  function findKeyError(value: R | Error): Error | undefined {
+    if (value instanceof Error) return value;
+    if (isGroupedMatch) {
+      return (value as unknown[]).find((row) => row instanceof Error) as
+        | Error
+        | undefined;
+    }
+    return undefined;
   }
 
-  function getSingle(key: K, options?: GetOptions): Promise<V> {
+  function getSingle(key: K, options?: GetOptions): Promise<R> {
     const externalSignal = options?.signal;
+    const requestTimeout = options?.timeout;
+    const priority = options?.priority ?? 'normal';
+    const deadline = options?.deadline;
+    const meta = options?.meta;
 
-    tracer.emit({ type: 'get', key });
+    tracer.emit({ type: 'get', key, priority });
 
     if (externalSignal?.aborted) {
       return Promise.reject(new DOMException('Aborted', 'AbortError'));
     }
 
     const cacheKey = keyFn(key);
+    const group = groupFn?.(key, meta);
 
-    if (pendingKeys.has(cacheKey)) {
-      tracer.emit({ type: 'dedup', key });
-    } else {
-      pendingKeys.add(cacheKey);
+    const cache = cacheFor(group);
+    if (cache) {
+      const entry = cache.get(cacheKey);
+      if (entry) {
+        tracer.emit({ type: 'cache-hit', key });
+        return Promise.resolve(entry.value);
+      }
+      tracer.emit({ type: 'cache-miss', key });
     }
 
-    return new Promise<V>((resolvePromise, rejectPromise) => {
+    const inFlight = inFlightKeys.get(cacheKey);
+    const joinsInFlight =
+      inFlight !== undefined &&
+      inFlight.group === group &&
+      !inFlight.controller.signal.aborted;
+
+    // Joining an in-flight chunk costs nothing, so only new fetches fail fast.
+    if (!joinsInFlight && circuit?.state === 'open') {
+      return Promise.reject(createCircuitOpenError());
+    }
+
+    if (joinsInFlight) {
+      tracer.emit({ type: 'dedup', key, batchId: inFlight.batchId });
+    }
+    const lane = joinsInFlight
+      ? undefined
+      : enqueue(key, cacheKey, group, priority);
+
+    return new Promise<R>((resolvePromise, rejectPromise) => {
       let settled = false;
       let removeAbortListener: (() => void) | null = null;
-      let request!: PendingRequest<K, V>;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let request!: PendingRequest<K, R>;
 
-      const resolve = (value: V) => {
+      const resolve = (value: R) => {
         if (settled) return;
         settled = true;
         removeAbortListener?.();
+        clearTimeout(timer);
         activeRequests.delete(request);
         requestToInFlightChunk.delete(request);
         resolvePromise(value);
@@ -309,6 +951,7 @@ export function batch<K, V>(
         if (settled) return;
         settled = true;
         removeAbortListener?.();
+        clearTimeout(timer);
         activeRequests.delete(request);
         requestToInFlightChunk.delete(request);
         rejectPromise(error);
@@ -319,38 +962,66 @@ export function batch<K, V>(
         resolve,
         reject,
         signal: externalSignal,
+        meta,
         aborted: false,
       };
 
-      queue.push(request);
+      if (lane) {
+        lane.queue.push(request);
+      } else if (joinsInFlight) {
+        inFlight.keyToRequests.get(cacheKey)?.push(request);
+        inFlight.requests.push(request);
+        activeRequests.add(request);
+        requestToInFlightChunk.set(request, inFlight);
+      }
 
-      if (externalSignal) {
-        const onAbort = () => {
-          const inFlight = requestToInFlightChunk.get(request);
-          request.aborted = true;
-          reject(createAbortError());
-
-          if (inFlight) {
-            const allChunkRequestsAborted = inFlight.requests.every(
-              (r) => r.aborted,
-            );
-            if (allChunkRequestsAborted) {
-              inFlight.controller.abort();
-            }
-          } else {
+      // Rejects only this caller. The chunk is aborted once nobody waits on it.
+      const cancel = (error: Error) => {
+        const inFlight = requestToInFlightChunk.get(request);
+        request.aborted = true;
+        reject(error);
+
+        if (inFlight) {
+          const allChunkRequestsAborted = inFlight.requests.every(
+            (r) => r.aborted,
+          );
+          if (allChunkRequestsAborted) {
+            inFlight.controller.abort();
+          }
+        } else {
+          // Checks every lane, since the request may have been promoted.
+          for (const queued of allLanes()) {
             const allQueuedAborted =
-              queue.length > 0 && queue.every((r) => r.aborted);
+              queued.queue.length > 0 && queued.queue.every((r) => r.aborted);
             if (allQueuedAborted) {
-              queue = [];
-              pendingKeys.clear();
-              if (cleanup) {
-                cleanup();
-                cleanup = null;
-              }
-              isScheduled = false;
+              queued.queue = [];
+              queued.pendingKeys.clear();
+              cancelScheduler(queued);
+              releaseLane(queued);
             }
           }
-        };
+        }
+      };
+
+      if (requestTimeout && requestTimeout > 0) {
+        timer = setTimeout(() => {
+          tracer.emit({
+            type: 'timeout',
+            timeout: requestTimeout,
+            batchId: requestToInFlightChunk.get(request)?.batchId,
+            key,
+          });
+          cancel(
+            new TimeoutError(
+              `Request for key ${String(key)} timed out after ${requestTimeout}ms`,
+              requestTimeout,
+            ),
+          );
+        }, requestTimeout);
+      }
+
+      if (externalSignal) {
+        const onAbort = () => cancel(createAbortError());
 
         externalSignal.addEventListener('abort', onAbort, { once: true });
         removeAbortListener = () => {
@@ -364,13 +1035,28 @@ export function batch<K, V>(
         }
       }
 
-      scheduleDispatch();
+      if (lane) {
+        if (priority === 'high') {
+          dispatchNow(lane, 'priority');
+        } else if (deadline !== undefined && isDue(deadline)) {
+          dispatchNow(lane, 'deadline');
+        } else {
+          holdOrSchedule(lane);
+          // Schedulers may dispatch synchronously, leaving nothing to arm.
+          if (deadline !== undefined && lane.queue.length > 0) {
+            armDeadline(lane, deadline);
+          }
+          if (max && max > 0 && lane.pendingKeys.size >= max) {
+            queueSizeCheck(lane);
+          }
+        }
+      }
     });
   }
 
-  function get(key: K, options?: GetOptions): Promise<V>;
-  function get(keys: K[], options?: GetOptions): Promise<V[]>;
-  function get(keyOrKeys: K | K[], options?: GetOptions): Promise<V | V[]> {
+  function get(key: K, options?: GetOptions): Promise<R>;
+  function get(keys: K[], options?: GetOptions): Promise<R[]>;
+  function get(keyOrKeys: K | K[], options?: GetOptions): Promise<R | R[]> {
     if (Array.isArray(keyOrKeys)) {
       return Promise.all(keyOrKeys.map((k) => getSingle(k, options)));
     }
@@ -378,40 +1064,64 @@ export function batch<K, V>(
   }
 
   async function flush(): Promise<void> {
-    if (cleanup) {
-      cleanup();
-      cleanup = null;
-    }
-    isScheduled = false;
-    await dispatch();
+    await Promise.all(
+      allLanes().map((lane) => {
+        const batchId = takeScheduledBatchId(lane);
+        cancelScheduler(lane);
+        return dispatch(lane, batchId);
+      }),
+    );
   }
 
   function abort(): void {
-    for (const request of queue) {
-      rejectAsAborted(request);
+    for (const lane of allLanes()) {
+      for (const request of lane.queue) {
+        rejectAsAborted(request);
+      }
     }
 
     for (const request of activeRequests) {
       rejectAsAborted(request);
     }
-    queue = [];
-    pendingKeys.clear();
 
     for (const chunk of inFlightChunks) {
       chunk.controller.abort();
     }
 
-    if (cleanup) {
-      cleanup();
-      cleanup = null;
+    for (const lane of allLanes()) {
+      lane.queue = [];
+      lane.pendingKeys.clear();
+      cancelScheduler(lane);
+    }
+    lanes.clear();
+    lowLanes.clear();
+  }
+
+  function prime(key: K, value: R, meta?: unknown): void {
+    cacheFor(groupFn?.(key, meta))?.set(keyFn(key), value);
+  }
+
+  function clear(key: K, meta?: unknown): void {
+    caches.get(groupFn?.(key, meta))?.delete(keyFn(key));
+  }
+
+  function clearAll(): void {
+    for (const cache of caches.values()) {
+      cache.clear();
     }
-    isScheduled = false;
+    caches.clear();
   }
 
   return {
     get,
     flush,
     abort,
+    prime,
+    clear,
+    clearAll,
     name,
+    get state() {
+      return circuit?.state ?? 'closed';
+    },
   };
 }
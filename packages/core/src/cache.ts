@@ -0,0 +1,61 @@
+import type { CacheEntry, CacheOptions, CacheStore } from './types';
+
+export function lruStore<V>(
+  max: number = Number.POSITIVE_INFINITY,
+): CacheStore<V> {
+  // Map iteration follows insertion order, so the first key is always the
+  // least recently used one.
+  const entries = new Map<unknown, CacheEntry<V>>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry === undefined) return undefined;
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > max) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+export function createCache<V>(options: CacheOptions<V>) {
+  const {
+    ttl = Number.POSITIVE_INFINITY,
+    max,
+    store = lruStore<V>(max),
+  } = options;
+
+  function get(key: unknown): CacheEntry<V> | undefined {
+    const entry = store.get(key);
+    if (entry === undefined) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  function set(key: unknown, value: V): void {
+    store.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  return {
+    get,
+    set,
+    delete: (key: unknown) => store.delete(key),
+    clear: () => store.clear(),
+  };
+}
@@ -0,0 +1,88 @@
+import type { CircuitOptions, CircuitState } from './types';
+
+export function createCircuit(
+  options: CircuitOptions,
+  onChange: (state: CircuitState, previous: CircuitState) => void,
+) {
+  const {
+    window = 10,
+    minChunks = 5,
+    threshold = 0.5,
+    resetTimeout = 30_000,
+  } = options;
+
+  let state: CircuitState = 'closed';
+  let openedAt = 0;
+  let trialInFlight = false;
+  // Outcomes of the most recent chunks, oldest first. `true` is a failure.
+  let outcomes: boolean[] = [];
+
+  function transition(next: CircuitState): void {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    if (next === 'open') {
+      openedAt = Date.now();
+    }
+    outcomes = [];
+    trialInFlight = false;
+    onChange(next, previous);
+  }
+
+  function current(): CircuitState {
+    if (state === 'open' && Date.now() - openedAt >= resetTimeout) {
+      transition('half-open');
+    }
+    return state;
+  }
+
+  /** Whether a chunk may call the batch function right now. */
+  function acquire(): boolean {
+    switch (current()) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        // A single trial chunk decides whether the circuit closes again.
+        if (trialInFlight) return false;
+        trialInFlight = true;
+        return true;
+    }
+  }
+
+  /** Records a chunk's outcome. `undefined` (e.g. an abort) counts as neither. */
+  function record(failed: boolean | undefined): void {
+    if (state === 'half-open') {
+      if (failed === undefined) {
+        trialInFlight = false;
+      } else {
+        transition(failed ? 'open' : 'closed');
+      }
+      return;
+    }
+
+    if (state !== 'closed' || failed === undefined) return;
+
+    outcomes.push(failed);
+    if (outcomes.length > window) {
+      outcomes.shift();
+    }
+
+    const failures = outcomes.filter(Boolean).length;
+    if (
+      outcomes.length >= minChunks &&
+      failures / outcomes.length >= threshold
+    ) {
+      transition('open');
+    }
+  }
+
+  return {
+    get state() {
+      return current();
+    },
+    acquire,
+    record,
+  };
+}
@@ -0,0 +1,71 @@
+interface AsyncLocalStorageLike<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, callback: () => R): R;
+}
+
+type AsyncLocalStorageClass = new <T>() => AsyncLocalStorageLike<T>;
+
+interface RuntimeGlobals {
+  AsyncLocalStorage?: AsyncLocalStorageClass;
+  process?: {
+    getBuiltinModule?: (
+      id: string,
+    ) => { AsyncLocalStorage?: AsyncLocalStorageClass } | undefined;
+  };
+}
+
+const runtime = globalThis as RuntimeGlobals;
+
+// Looked up on first use so importing batchkit never touches
+// `node:async_hooks`. `null` once we know the runtime has none.
+let AsyncLocalStorage: AsyncLocalStorageClass | null | undefined;
+
+function loadAsyncLocalStorage(): AsyncLocalStorageClass | null {
+  if (AsyncLocalStorage === undefined) {
+    AsyncLocalStorage =
+      runtime.AsyncLocalStorage ??
+      runtime.process?.getBuiltinModule?.('node:async_hooks')
+        ?.AsyncLocalStorage ??
+      null;
+  }
+  return AsyncLocalStorage;
+}
+
+/**
+ * A value that follows async execution through AsyncLocalStorage. Where the
+ * runtime has none, `run` only covers synchronous code.
+ */
+export function createAsyncContext<T>() {
+  let storage: AsyncLocalStorageLike<T> | null | undefined;
+  let syncStore: T | undefined;
+
+  function getStorage(): AsyncLocalStorageLike<T> | null {
+    if (storage === undefined) {
+      const Storage = loadAsyncLocalStorage();
+      storage = Storage ? new Storage<T>() : null;
+    }
+    return storage;
+  }
+
+  return {
+    /** Whether `run` follows the callback across `await`s in this runtime. */
+    get isAsync(): boolean {
+      return getStorage() !== null;
+    },
+    get(): T | undefined {
+      return getStorage()?.getStore() ?? syncStore;
+    },
+    run<R>(store: T, callback: () => R): R {
+      const asyncStorage = getStorage();
+      if (asyncStorage) return asyncStorage.run(store, callback);
+
+      const previous = syncStore;
+      syncStore = store;
+      try {
+        return callback();
+      } finally {
+        syncStore = previous;
+      }
+    },
+  };
+}
@@ -4,3 +4,30 @@ export class BatchError extends Error {
     this.name = 'BatchError';
   }
 }
+
+export class CircuitOpenError extends BatchError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class TimeoutError extends BatchError {
+  constructor(
+    message: string,
+    readonly timeout: number,
+  ) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class HttpError extends BatchError {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
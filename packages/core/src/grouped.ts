@@ -0,0 +1,11 @@
+export const groupedField: unique symbol = Symbol('grouped');
+
+type GroupField = PropertyKey | readonly (string | number)[];
+
+export interface Grouped<F extends GroupField = GroupField> {
+  readonly [groupedField]: F;
+}
+
+export function grouped<const F extends GroupField>(field: F): Grouped<F> {
+  return { [groupedField]: field };
+}
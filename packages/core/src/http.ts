@@ -0,0 +1,133 @@
+import { BatchError, HttpError } from './errors';
+import type {
+  BatchFn,
+  BatchHandlerOptions,
+  BatchResolver,
+  HttpBatchOptions,
+} from './types';
+
+export { HttpError } from './errors';
+export type {
+  BatchHandlerOptions,
+  BatchResolver,
+  HttpBatchOptions,
+} from './types';
+
+/**
+ * Creates a batch function that fetches keys from an HTTP endpoint, such as
+ * one served by `createBatchHandler`. The response is a JSON object keyed by
+ * key, so pair it with the `indexed` match.
+ */
+export function httpBatchFn<K, V>(options: HttpBatchOptions<K>): BatchFn<K, V> {
+  const { url, headers, fetch: fetchFn = fetch, encodeKeys } = options;
+  // Methods are case-insensitive; `get` must still send keys in the query.
+  const method = (options.method ?? 'GET').toUpperCase();
+
+  return async (keys, signal) => {
+    let response: Response;
+    if (method === 'GET') {
+      const target = new URL(url, globalThis.location?.href);
+      if (encodeKeys) {
+        target.searchParams.set('keys', encodeKeys(keys));
+      } else {
+        // One parameter per key, so keys may contain commas or any other text.
+        for (const key of keys) {
+          target.searchParams.append('keys', String(key));
+        }
+      }
+      response = await fetchFn(target, { method, headers, signal });
+    } else {
+      response = await fetchFn(url, {
+        method,
+        headers: { 'content-type': 'application/json', ...headers },
+        body: encodeKeys ? encodeKeys(keys) : JSON.stringify({ keys }),
+        signal,
+      });
+    }
+
+    if (!response.ok) {
+      throw new HttpError(
+        `Batch request to ${url} failed with ${response.status}`,
+        response.status,
+      );
+    }
+    return (await response.json()) as Record<string, V>;
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+async function defaultDecodeKeys(request: Request): Promise<string[]> {
+  if (request.method === 'GET') {
+    const keys = new URL(request.url).searchParams.getAll('keys');
+    if (keys.length === 0) {
+      throw new BatchError('Missing keys query parameter');
+    }
+    return keys;
+  }
+
+  const body = (await request.json()) as { keys?: unknown };
+  if (!Array.isArray(body?.keys)) {
+    throw new BatchError('Request body must be { keys: [...] }');
+  }
+  return body.keys.map(String);
+}
+
+/**
+ * Creates a Fetch API handler for batch requests from `httpBatchFn`. It
+ * decodes the keys, rejects batches over `max`, and responds with the
+ * resolver's results as a JSON object keyed by key.
+ */
+export function createBatchHandler<V>(
+  resolver: BatchResolver<V>,
+  options: BatchHandlerOptions = {},
+): (request: Request) => Promise<Response> {
+  const { max = 1000, decodeKeys = defaultDecodeKeys, onError } = options;
+
+  return async (request) => {
+    let keys: string[];
+    try {
+      keys = [...new Set(await decodeKeys(request))];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return json({ error: message }, 400);
+    }
+
+    if (keys.length > max) {
+      return json(
+        { error: `Batch of ${keys.length} keys exceeds the limit of ${max}` },
+        413,
+      );
+    }
+
+    let results: Awaited<ReturnType<BatchResolver<V>>>;
+    try {
+      results = await resolver(keys, request);
+    } catch (error) {
+      // Resolver errors can carry database or internal details, so they are
+      // only handed to `onError`, never sent to the client as is.
+      const err = error instanceof Error ? error : new Error(String(error));
+      return (
+        (await onError?.(err, request)) ??
+        json({ error: 'Internal error' }, 500)
+      );
+    }
+
+    // Missing keys and per-key errors are left out, so the client rejects
+    // just those keys.
+    const body: Record<string, V> = {};
+    const entries =
+      results instanceof Map ? results.entries() : Object.entries(results);
+    for (const [key, value] of entries) {
+      if (!(value instanceof Error)) {
+        body[String(key)] = value;
+      }
+    }
+    return json(body);
+  };
+}
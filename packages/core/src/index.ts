@@ -1,19 +1,61 @@
 export { batch } from './batch';
-export { BatchError } from './errors';
+export { BatchError, CircuitOpenError, TimeoutError } from './errors';
+export type { Grouped } from './grouped';
+export { grouped } from './grouped';
 export { indexed } from './indexed';
-export { onAnimationFrame, onIdle } from './schedulers';
+export type { Keyed } from './keyed';
+export { keyed } from './keyed';
+export { multiplex } from './multiplex';
+export { ordered } from './ordered';
+export { batchScope } from './rounds';
+export {
+  adaptive,
+  afterIO,
+  any,
+  debounce,
+  onAnimationFrame,
+  onIdle,
+  onImmediate,
+  onNextTick,
+  rateLimit,
+  size,
+  throttle,
+  wait,
+} from './schedulers';
+export { createScope, scoped, withScope } from './scoped';
 export type { DevtoolsHook } from './trace';
 export { __setDevtoolsHook } from './trace';
 
 export type {
+  AdaptiveOptions,
+  BatchContext,
   Batcher,
   BatchFn,
   BatchOptions,
+  BatchResult,
+  BatchScope,
+  BatchStats,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  CircuitOptions,
+  CircuitState,
+  FieldMatch,
+  FieldPath,
   GetOptions,
   Match,
   MatchFn,
+  Multiplexer,
+  MultiplexOptions,
+  Priority,
+  RetryOptions,
   Scheduler,
+  SchedulerContext,
+  ScheduleTrigger,
+  Scope,
+  ScopedBatcher,
   TraceEvent,
   TraceEventData,
   TraceHandler,
+  Transport,
 } from './types';
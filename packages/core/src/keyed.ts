@@ -0,0 +1,9 @@
+export const keyedExtractor: unique symbol = Symbol('keyed');
+
+export interface Keyed<V> {
+  readonly [keyedExtractor]: (row: V) => unknown;
+}
+
+export function keyed<V>(extract: (row: V) => unknown): Keyed<V> {
+  return { [keyedExtractor]: extract };
+}
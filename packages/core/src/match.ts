@@ -1,44 +1,241 @@
 import { BatchError } from './errors';
+import { type Grouped, groupedField } from './grouped';
 import { indexed } from './indexed';
-import type { Match, MatchFn } from './types';
+import { type Keyed, keyedExtractor } from './keyed';
+import { ordered } from './ordered';
+import type { BatchResult, Match, MatchFn } from './types';
 
-export function isIndexed<K, V>(match: Match<K, V>): match is typeof indexed {
+export function isIndexed(match: unknown): match is typeof indexed {
   return match === indexed;
 }
 
-export function isKeyMatch<K, V>(match: Match<K, V>): match is keyof V {
+export function isOrdered(match: unknown): match is typeof ordered {
+  return match === ordered;
+}
+
+export function isGrouped(match: unknown): match is Grouped {
+  return typeof match === 'object' && match !== null && groupedField in match;
+}
+
+export function isKeyed(match: unknown): match is Keyed<unknown> {
+  return typeof match === 'object' && match !== null && keyedExtractor in match;
+}
+
+export function isKeyMatch(match: unknown): match is string | number {
   return typeof match === 'string' || typeof match === 'number';
 }
 
-export function normalizeMatch<K, V>(match: Match<K, V>): MatchFn<K, V> | null {
-  if (isIndexed(match)) {
-    // Indexed matching is handled separately
+export function isCompositeMatch(
+  match: unknown,
+): match is readonly (string | number)[] {
+  return Array.isArray(match);
+}
+
+export function normalizeMatch<K, V>(
+  match: Match<K, V> | Grouped,
+): MatchFn<K, V> | null {
+  if (
+    isIndexed(match) ||
+    isOrdered(match) ||
+    isGrouped(match) ||
+    isKeyed(match) ||
+    isKeyMatch(match) ||
+    isCompositeMatch(match)
+  ) {
+    // These are matched through lookups built once per batch
     return null;
   }
 
   if (typeof match === 'symbol') {
     throw new BatchError(
-      'Unsupported symbol match. Use `indexed` for Record responses.',
+      'Unsupported symbol match. Use `indexed` for Record responses or `ordered` for arrays aligned with the keys.',
     );
   }
 
-  if (isKeyMatch<K, V>(match)) {
-    const key = match as string | number;
-    return (results: V[], requestedKey: K) => {
-      return results.find(
-        (item) =>
-          (item as Record<string | number, unknown>)[key] === requestedKey,
-      );
+  // Already a function
+  return match as MatchFn<K, V>;
+}
+
+/**
+ * Derives comparable keys for result rows and requested keys, so results can
+ * be indexed once per batch instead of scanned once per key.
+ */
+export interface KeyIndexer<K, V> {
+  /** Returns `undefined` for rows that cannot match any key. */
+  rowKey(row: V): unknown;
+  lookupKey(key: K): unknown;
+}
+
+// Reads `field` from a row or key. A field with dots is a nested path, unless
+// the value has an own property by that exact name, like a SQL alias `user.id`.
+function fieldReader(field: string | number): (value: unknown) => unknown {
+  const path = typeof field === 'string' ? field.split('.') : [field];
+
+  return (value) => {
+    if (value == null) return undefined;
+    if (path.length > 1 && Object.hasOwn(value, field)) {
+      return (value as Record<string | number, unknown>)[field];
+    }
+
+    let current: unknown = value;
+    for (const segment of path) {
+      if (current == null) return undefined;
+      current = (current as Record<string | number, unknown>)[segment];
+    }
+    return current;
+  };
+}
+
+// Interns tuples of field values into stable tokens, so composite keys can be
+// compared exactly (including object and bigint components) with one Map.
+function createTupleInterner() {
+  interface Node {
+    children: Map<unknown, Node>;
+    token?: object;
+  }
+
+  const root: Node = { children: new Map() };
+
+  function intern(values: readonly unknown[]): object {
+    let node = root;
+    for (const value of values) {
+      let child = node.children.get(value);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(value, child);
+      }
+      node = child;
+    }
+    node.token ??= {};
+    return node.token;
+  }
+
+  function find(values: readonly unknown[]): object | undefined {
+    let node: Node | undefined = root;
+    for (const value of values) {
+      node = node.children.get(value);
+      if (!node) return undefined;
+    }
+    return node.token;
+  }
+
+  return { intern, find };
+}
+
+/**
+ * Returns a factory for a fresh indexer per batch, or `null` when the match
+ * cannot be indexed (custom match functions, `indexed`, `ordered`).
+ */
+export function createKeyIndexer<K, V>(
+  match: Match<K, V> | Grouped,
+  keyFn: (k: K) => unknown,
+): (() => KeyIndexer<K, V>) | null {
+  const target: unknown = isGrouped(match) ? match[groupedField] : match;
+
+  if (isKeyed(target)) {
+    const extract = target[keyedExtractor] as (row: V) => unknown;
+    const indexer: KeyIndexer<K, V> = {
+      rowKey(row) {
+        const rowKey = extract(row);
+        return rowKey == null ? undefined : keyFn(rowKey as K);
+      },
+      lookupKey: keyFn,
     };
+    return () => indexer;
   }
 
-  // Already a function
-  return match as MatchFn<K, V>;
+  if (isCompositeMatch(target)) {
+    // Composite keys compare field by field, independent of the `key` option.
+    const readers = target.map(fieldReader);
+    return () => {
+      const tuples = createTupleInterner();
+      return {
+        rowKey: (row) => tuples.intern(readers.map((read) => read(row))),
+        lookupKey: (key) => tuples.find(readers.map((read) => read(key))),
+      };
+    };
+  }
+
+  if (isKeyMatch(target)) {
+    const read = fieldReader(target);
+    const indexer: KeyIndexer<K, V> = {
+      rowKey(row) {
+        const rowKey = read(row);
+        return rowKey == null ? undefined : keyFn(rowKey as K);
+      },
+      lookupKey: keyFn,
+    };
+    return () => indexer;
+  }
+
+  return null;
 }
 
-export function createIndexedMatcher<K, V>(): (
-  results: Record<string, V>,
-  key: K,
-) => V | undefined {
-  return (results, key) => results[String(key)];
+export function createIndexedMatcher<K, V>(
+  keyFn: (k: K) => unknown,
+): (results: BatchResult<V>, key: K) => V | Error | undefined {
+  // Maps are re-keyed through the key function only when a direct lookup
+  // misses, e.g. when the response holds equal but not identical object keys.
+  const rekeyed = new WeakMap<
+    Map<unknown, V | Error>,
+    Map<unknown, V | Error>
+  >();
+
+  return (results, key) => {
+    const cacheKey = keyFn(key);
+
+    if (results instanceof Map) {
+      if (results.has(key)) return results.get(key);
+      if (results.has(cacheKey)) return results.get(cacheKey);
+
+      let index = rekeyed.get(results);
+      if (!index) {
+        index = new Map();
+        for (const [resultKey, value] of results) {
+          index.set(keyFn(resultKey as K), value);
+        }
+        rekeyed.set(results, index);
+      }
+      return index.get(cacheKey);
+    }
+
+    const record = results as Record<string, V | Error>;
+    const recordKey = String(cacheKey);
+    return Object.hasOwn(record, recordKey)
+      ? record[recordKey]
+      : record[String(key)];
+  };
+}
+
+export function indexResults<V>(
+  results: readonly (V | Error)[],
+  rowKey: (row: V) => unknown,
+): Map<unknown, V | Error> {
+  const index = new Map<unknown, V | Error>();
+  for (const row of results) {
+    const key = rowKey(row as V);
+    // First match wins, like `Array.prototype.find`.
+    if (key !== undefined && !index.has(key)) {
+      index.set(key, row);
+    }
+  }
+  return index;
+}
+
+export function groupResults<V>(
+  results: readonly (V | Error)[],
+  rowKey: (row: V) => unknown,
+): Map<unknown, (V | Error)[]> {
+  const groups = new Map<unknown, (V | Error)[]>();
+  for (const row of results) {
+    const key = rowKey(row as V);
+    if (key === undefined) continue;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
 }
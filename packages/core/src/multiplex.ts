@@ -0,0 +1,176 @@
+import { BatchError } from './errors';
+import { microtask, wait } from './schedulers';
+import type {
+  BatchFn,
+  BatchResult,
+  Multiplexer,
+  MultiplexOptions,
+  Scheduler,
+  SchedulerContext,
+  Transport,
+} from './types';
+
+interface ChannelCall {
+  readonly keys: unknown[];
+  readonly signal: AbortSignal;
+  readonly link: (transportId: string) => void;
+  readonly resolve: (results: BatchResult<unknown>) => void;
+  readonly reject: (error: Error) => void;
+}
+
+/**
+ * Sends the batches of several batchers through one `transport` call. Each
+ * batcher gets its batch function from `channel(name)`; calls made in the
+ * same window are sent together, keyed by channel name, and each batcher
+ * matches its own slice of the response.
+ */
+export function multiplex(
+  transport: Transport,
+  options: MultiplexOptions = {},
+): Multiplexer {
+  const { wait: waitMs, schedule, name } = options;
+  const scheduler: Scheduler = schedule ?? (waitMs ? wait(waitMs) : microtask);
+
+  let pending = new Map<string, ChannelCall>();
+  let openedAt = 0;
+  let isScheduled = false;
+  let cleanup: (() => void) | null = null;
+  const enqueueListeners = new Set<() => void>();
+  let transportCounter = 0;
+
+  const context: SchedulerContext = {
+    get size() {
+      return pending.size;
+    },
+    get firstEnqueuedAt() {
+      return openedAt;
+    },
+    onEnqueue(listener) {
+      const subscription = () => listener();
+      enqueueListeners.add(subscription);
+      return () => {
+        enqueueListeners.delete(subscription);
+      };
+    },
+  };
+
+  function enqueue(channel: string, call: ChannelCall): void {
+    // A channel sends one batch per transport call, so a second batch from
+    // the same channel sends the window it would have joined.
+    if (pending.has(channel)) {
+      send();
+    }
+
+    if (pending.size === 0) {
+      openedAt = performance.now();
+    }
+    pending.set(channel, call);
+
+    if (isScheduled) {
+      for (const listener of [...enqueueListeners]) {
+        listener();
+      }
+      return;
+    }
+    isScheduled = true;
+
+    const stop = scheduler(() => {
+      if (!isScheduled) return;
+      isScheduled = false;
+      cleanup = null;
+      send();
+    }, context);
+
+    // Schedulers may dispatch synchronously, before returning their cleanup.
+    if (isScheduled) {
+      cleanup = stop;
+    }
+  }
+
+  function cancelScheduler(): void {
+    cleanup?.();
+    cleanup = null;
+    isScheduled = false;
+    enqueueListeners.clear();
+  }
+
+  async function send(): Promise<void> {
+    const calls = pending;
+    pending = new Map();
+    cancelScheduler();
+
+    const live = new Map([...calls].filter(([, call]) => !call.signal.aborted));
+    if (live.size === 0) return;
+
+    const transportId = `${name ?? 'transport'}-${++transportCounter}`;
+    const controller = new AbortController();
+    const requests: Record<string, unknown[]> = {};
+    const removeListeners: (() => void)[] = [];
+
+    for (const [channel, call] of live) {
+      requests[channel] = call.keys;
+      call.link(transportId);
+
+      // The transport is aborted once no channel is waiting on it.
+      const onAbort = () => {
+        live.delete(channel);
+        if (live.size === 0) {
+          controller.abort();
+        }
+      };
+      call.signal.addEventListener('abort', onAbort, { once: true });
+      removeListeners.push(() =>
+        call.signal.removeEventListener('abort', onAbort),
+      );
+    }
+
+    try {
+      if (scheduler.acquire) {
+        await scheduler.acquire(controller.signal);
+      }
+      const responses = await transport(requests, controller.signal, {
+        transportId,
+      });
+      for (const [channel, call] of live) {
+        if (Object.hasOwn(responses, channel)) {
+          call.resolve(responses[channel]);
+        } else {
+          call.reject(
+            new BatchError(
+              `Transport ${transportId} returned no response for channel ${channel}`,
+            ),
+          );
+        }
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      for (const call of live.values()) {
+        call.reject(err);
+      }
+    } finally {
+      for (const remove of removeListeners) {
+        remove();
+      }
+    }
+  }
+
+  function channel<K, V>(channelName: string): BatchFn<K, V> {
+    return (keys, signal, batchContext) =>
+      new Promise<BatchResult<V>>((resolve, reject) => {
+        signal.throwIfAborted();
+        enqueue(channelName, {
+          keys,
+          signal,
+          link: (transportId) => batchContext.link(transportId),
+          resolve: (results) => resolve(results as BatchResult<V>),
+          reject,
+        });
+        // Batchers ignore results once aborted; settle so nothing dangles.
+        signal.addEventListener('abort', () => reject(signal.reason), {
+          once: true,
+        });
+      });
+  }
+
+  return { channel };
+}
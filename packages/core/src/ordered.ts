@@ -0,0 +1 @@
+export const ordered: unique symbol = Symbol('ordered');
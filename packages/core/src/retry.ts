@@ -0,0 +1,52 @@
+import type { RetryOptions } from './types';
+
+export interface RetryPolicy {
+  readonly attempts: number;
+  readonly retryMissing: boolean;
+  shouldRetry(error: Error, attempt: number): boolean;
+  /** Backoff before `attempt`, where the first retry is attempt 2. */
+  delayFor(attempt: number): number;
+}
+
+export function createRetryPolicy(options: number | RetryOptions): RetryPolicy {
+  const {
+    attempts = 3,
+    delay = 100,
+    maxDelay = 30_000,
+    jitter = true,
+    shouldRetry = () => true,
+    retryMissing = false,
+  } = typeof options === 'number' ? { attempts: options } : options;
+
+  return {
+    attempts,
+    retryMissing,
+    shouldRetry(error, attempt) {
+      if (error.name === 'AbortError') return false;
+      return shouldRetry(error, attempt);
+    },
+    delayFor(attempt) {
+      const backoff = Math.min(maxDelay, delay * 2 ** (attempt - 2));
+      return jitter ? backoff / 2 + (Math.random() * backoff) / 2 : backoff;
+    },
+  };
+}
+
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const id = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,111 @@
+import { createAsyncContext } from './context';
+import type { BatchScope } from './types';
+
+interface Round {
+  /**
+   * Holds a dispatch until the round closes. Returns `false` once the
+   * scope's callback has finished, so the caller schedules as usual.
+   */
+  hold(owner: object, dispatch: () => void): boolean;
+}
+
+const context = createAsyncContext<Round>();
+
+/** The round of the innermost `batchScope()` the caller runs in, if any. */
+export function currentRound(): Round | undefined {
+  return context.get();
+}
+
+const runtime = globalThis as {
+  setImmediate?: (callback: () => void) => unknown;
+};
+
+function nextMacrotask(callback: () => void): void {
+  if (typeof runtime.setImmediate === 'function') {
+    runtime.setImmediate(callback);
+  } else {
+    setTimeout(callback, 0);
+  }
+}
+
+/**
+ * Runs `callback` in rounds. Gets made inside it, on any batcher, are held
+ * until the callback is waiting on nothing but batched keys, then dispatched
+ * together. Pass other async work through `scope.track()` so a round stays
+ * open until it settles.
+ */
+export async function batchScope<T>(
+  callback: (scope: BatchScope) => T | Promise<T>,
+): Promise<T> {
+  const held = new Map<object, () => void>();
+  let closed = false;
+  let tracked = 0;
+  let rounds = 0;
+  // Bumped by every get and settled promise, to tell when things went quiet.
+  let activity = 0;
+  let waiting = false;
+
+  function dispatchRound(): void {
+    if (held.size === 0) return;
+    rounds++;
+    const dispatches = [...held.values()];
+    held.clear();
+    for (const dispatch of dispatches) {
+      dispatch();
+    }
+  }
+
+  // Closes the round after a full macrotask turn without new gets while no
+  // tracked promise is pending.
+  function waitForQuiet(): void {
+    const observed = activity;
+    nextMacrotask(() => {
+      if (activity !== observed) {
+        waitForQuiet();
+        return;
+      }
+      waiting = false;
+      if (tracked === 0) {
+        dispatchRound();
+      }
+    });
+  }
+
+  function touch(): void {
+    activity++;
+    if (waiting) return;
+    waiting = true;
+    waitForQuiet();
+  }
+
+  const round: Round = {
+    hold(owner, dispatch) {
+      if (closed) return false;
+      held.set(owner, dispatch);
+      touch();
+      return true;
+    },
+  };
+
+  const scope: BatchScope = {
+    track(promise) {
+      tracked++;
+      const settle = () => {
+        tracked--;
+        touch();
+      };
+      promise.then(settle, settle);
+      return promise;
+    },
+    get rounds() {
+      return rounds;
+    },
+  };
+
+  try {
+    return await context.run(round, () => callback(scope));
+  } finally {
+    closed = true;
+    dispatchRound();
+  }
+}
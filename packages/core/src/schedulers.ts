@@ -1,4 +1,5 @@
-import type { Scheduler } from './types';
+import { sleep } from './retry';
+import type { AdaptiveOptions, Scheduler } from './types';
 
 export const microtask: Scheduler = (dispatch) => {
   let cancelled = false;
@@ -45,3 +46,390 @@ export function onIdle(options?: { timeout?: number }): Scheduler {
     return () => clearTimeout(id);
   };
 }
+
+/**
+ * Token bucket: every call to the batch function spends a token, and tokens
+ * refill at `perSecond`. Keys queued while the bucket is empty wait for the
+ * next token and go out together in one batch. Chunks split by `max` and
+ * batches sent early, e.g. on reaching `max`, wait for tokens too.
+ */
+export function rateLimit(options: {
+  perSecond: number;
+  burst?: number;
+}): Scheduler {
+  const { perSecond, burst = 1 } = options;
+  if (!(perSecond > 0) || !(burst >= 1)) {
+    throw new Error(
+      'rateLimit requires perSecond > 0 and burst >= 1 when provided.',
+    );
+  }
+
+  const interval = 1000 / perSecond;
+  let tokens = burst;
+  let refilledAt = performance.now();
+  // Calls waiting for a token, served in order.
+  let waiting = 0;
+  let turn = Promise.resolve();
+
+  function refill(): void {
+    const now = performance.now();
+    tokens = Math.min(burst, tokens + (now - refilledAt) / interval);
+    refilledAt = now;
+  }
+
+  const scheduler: Scheduler = (dispatch) => {
+    let cancelled = false;
+    let id: ReturnType<typeof setTimeout> | undefined;
+
+    // Holds the batch until a token is left for it; `acquire` spends it.
+    const attempt = () => {
+      if (cancelled) return;
+      refill();
+      const available = tokens - waiting;
+      if (available >= 1) {
+        dispatch();
+        return;
+      }
+      id = setTimeout(attempt, (1 - available) * interval);
+    };
+
+    // Like `microtask`, so keys requested in the same tick share a batch.
+    queueMicrotask(attempt);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  };
+
+  scheduler.acquire = (signal) => {
+    waiting++;
+    const acquired = turn
+      .then(async () => {
+        while (true) {
+          signal.throwIfAborted();
+          refill();
+          if (tokens >= 1) {
+            tokens -= 1;
+            return;
+          }
+          await sleep((1 - tokens) * interval, signal);
+        }
+      })
+      .finally(() => {
+        waiting--;
+      });
+    turn = acquired.catch(() => {});
+    return acquired;
+  };
+
+  return scheduler;
+}
+
+// Looked up on every call rather than at import, so the same build works in
+// Node, Bun, Deno and browsers, and with polyfills installed later.
+interface RuntimeGlobals {
+  setImmediate?: (callback: () => void) => unknown;
+  clearImmediate?: (id: unknown) => void;
+  process?: { nextTick?: (callback: () => void) => void };
+}
+
+const runtime = globalThis as RuntimeGlobals;
+
+/**
+ * Dispatches from `setImmediate`, once the current macrotask and every
+ * microtask it queued have run. Falls back to `setTimeout(0)` where
+ * `setImmediate` is missing, such as browsers.
+ */
+export const onImmediate: Scheduler = (dispatch) => {
+  const { setImmediate, clearImmediate } = runtime;
+  if (typeof setImmediate === 'function') {
+    const id = setImmediate(dispatch);
+    return () => clearImmediate?.(id);
+  }
+
+  const id = setTimeout(dispatch, 0);
+  return () => clearTimeout(id);
+};
+
+/**
+ * Dispatches from `process.nextTick`, ahead of promise callbacks. Falls back
+ * to `queueMicrotask` where `process.nextTick` is missing.
+ */
+export const onNextTick: Scheduler = (dispatch) => {
+  let cancelled = false;
+  const run = () => {
+    if (!cancelled) {
+      dispatch();
+    }
+  };
+
+  const nextTick = runtime.process?.nextTick;
+  if (typeof nextTick === 'function') {
+    nextTick(run);
+  } else {
+    queueMicrotask(run);
+  }
+
+  return () => {
+    cancelled = true;
+  };
+};
+
+/**
+ * Dispatches after the next I/O poll phase, so keys requested by I/O
+ * callbacks completing in that phase share the batch. Uses a `setTimeout(0)`
+ * followed by `setImmediate`, and only the timeout where `setImmediate` is
+ * missing.
+ */
+export const afterIO: Scheduler = (dispatch, context) => {
+  let cleanupImmediate: (() => void) | null = null;
+
+  const id = setTimeout(() => {
+    if (typeof runtime.setImmediate === 'function') {
+      cleanupImmediate = onImmediate(dispatch, context);
+    } else {
+      dispatch();
+    }
+  }, 0);
+
+  return () => {
+    clearTimeout(id);
+    cleanupImmediate?.();
+  };
+};
+
+/**
+ * Dispatches as soon as any of the given schedulers does, then cancels the
+ * rest. Calls still wait for every rate limit among them, batch stats reach
+ * every scheduler that observes them, and `window` comes from the first one
+ * that has it.
+ */
+export function any(...schedulers: Scheduler[]): Scheduler {
+  const combined: Scheduler = (dispatch, context) => {
+    let done = false;
+    const cleanups: (() => void)[] = [];
+
+    const cancelAll = () => {
+      for (const cleanup of cleanups.splice(0)) {
+        cleanup();
+      }
+    };
+
+    const fire = () => {
+      if (done) return;
+      done = true;
+      cancelAll();
+      dispatch();
+    };
+
+    for (const scheduler of schedulers) {
+      const cleanup = scheduler(fire, context);
+      if (done) {
+        // Dispatched synchronously; nothing else needs to stay armed.
+        cleanup();
+        break;
+      }
+      cleanups.push(cleanup);
+    }
+
+    return () => {
+      done = true;
+      cancelAll();
+    };
+  };
+
+  const limits = schedulers.filter((scheduler) => scheduler.acquire);
+  if (limits.length > 0) {
+    combined.acquire = async (signal) => {
+      for (const limit of limits) {
+        await limit.acquire?.(signal);
+      }
+    };
+  }
+
+  const observers = schedulers.filter((scheduler) => scheduler.observe);
+  if (observers.length > 0) {
+    combined.observe = (stats) => {
+      for (const observer of observers) {
+        observer.observe?.(stats);
+      }
+    };
+  }
+
+  // Read on every access, since windows such as `adaptive()`'s change.
+  const windowed = schedulers.find((scheduler) => 'window' in scheduler);
+  if (windowed) {
+    Object.defineProperty(combined, 'window', {
+      get: () => windowed.window,
+    });
+  }
+  return combined;
+}
+
+/** Dispatches once `n` unique keys are queued. Combine with a timed scheduler. */
+export function size(n: number): Scheduler {
+  return (dispatch, context) => {
+    if (context.size >= n) {
+      dispatch();
+      return () => {};
+    }
+
+    const unsubscribe = context.onEnqueue(() => {
+      if (context.size >= n) {
+        unsubscribe();
+        dispatch();
+      }
+    });
+    return unsubscribe;
+  };
+}
+
+/**
+ * Dispatches once no key has been queued for `ms`. `maxWait` caps the total
+ * delay, counted from the first queued key.
+ */
+export function debounce(
+  ms: number,
+  options?: { maxWait?: number },
+): Scheduler {
+  const maxWait = options?.maxWait;
+
+  return (dispatch, context) => {
+    let id: ReturnType<typeof setTimeout> | undefined;
+
+    const arm = () => {
+      clearTimeout(id);
+      let delay = ms;
+      if (maxWait !== undefined) {
+        const deadline = context.firstEnqueuedAt + maxWait;
+        delay = Math.max(0, Math.min(ms, deadline - performance.now()));
+      }
+      id = setTimeout(() => {
+        unsubscribe();
+        dispatch();
+      }, delay);
+    };
+
+    const unsubscribe = context.onEnqueue(arm);
+    arm();
+
+    return () => {
+      clearTimeout(id);
+      unsubscribe();
+    };
+  };
+}
+
+/**
+ * Dispatches at most once every `ms`. Keys queued in between wait for the
+ * next slot and go out together.
+ */
+export function throttle(ms: number): Scheduler {
+  let lastDispatchAt = Number.NEGATIVE_INFINITY;
+
+  return (dispatch) => {
+    let cancelled = false;
+    let id: ReturnType<typeof setTimeout> | undefined;
+
+    const fire = () => {
+      if (cancelled) return;
+      lastDispatchAt = performance.now();
+      dispatch();
+    };
+
+    const remaining = lastDispatchAt + ms - performance.now();
+    if (remaining > 0) {
+      id = setTimeout(fire, remaining);
+    } else {
+      queueMicrotask(fire);
+    }
+
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  };
+}
+
+/**
+ * A `wait` scheduler whose window follows the traffic. While keys arrive
+ * faster than a batch resolves, it waits up to half the average resolve
+ * duration to collect them. When batches stay at a single key, it shrinks
+ * back toward `min`.
+ */
+export function adaptive(
+  options: AdaptiveOptions = {},
+): Scheduler & { readonly window: number } {
+  const { min = 0, max = 50, smoothing = 0.2 } = options;
+  if (!(min >= 0) || !(max >= min) || !(smoothing > 0 && smoothing <= 1)) {
+    throw new Error(
+      'adaptive requires 0 <= min <= max and 0 < smoothing <= 1.',
+    );
+  }
+
+  let window = min;
+  let gap: number | undefined;
+  let duration: number | undefined;
+  let size: number | undefined;
+  let lastArrivalAt: number | undefined;
+
+  const average = (current: number | undefined, sample: number) =>
+    current === undefined ? sample : current + smoothing * (sample - current);
+
+  function recordArrival(at: number): void {
+    if (lastArrivalAt !== undefined) {
+      gap = average(gap, at - lastArrivalAt);
+    }
+    lastArrivalAt = at;
+  }
+
+  function retune(): void {
+    if (gap === undefined || duration === undefined) return;
+
+    let target = gap * 2 <= duration ? duration / 2 : min;
+    if (window > min && size !== undefined && size < 2) {
+      // The window isn't collecting anything; back off gradually.
+      target = Math.min(target, window / 2);
+    }
+    window = Math.min(max, Math.max(min, target));
+  }
+
+  const scheduler: Scheduler = (dispatch, context) => {
+    let cancelled = false;
+    let id: ReturnType<typeof setTimeout> | undefined;
+
+    recordArrival(context.firstEnqueuedAt);
+    const unsubscribe = context.onEnqueue(() =>
+      recordArrival(performance.now()),
+    );
+
+    const fire = () => {
+      if (cancelled) return;
+      unsubscribe();
+      dispatch();
+    };
+
+    if (window > 0) {
+      id = setTimeout(fire, window);
+    } else {
+      queueMicrotask(fire);
+    }
+
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+      unsubscribe();
+    };
+  };
+
+  scheduler.observe = (stats) => {
+    duration = average(duration, stats.duration);
+    size = average(size, stats.size);
+    retune();
+  };
+
+  return Object.defineProperty(scheduler, 'window', {
+    get: () => window,
+  }) as Scheduler & { readonly window: number };
+}
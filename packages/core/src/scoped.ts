@@ -0,0 +1,142 @@
+import { createAsyncContext } from './context';
+import { BatchError } from './errors';
+import type { Batcher, GetOptions, Scope, ScopedBatcher } from './types';
+
+interface ScopeState {
+  readonly scope: Scope;
+  readonly batchers: Map<object, Batcher<never, unknown>>;
+  disposed: boolean;
+}
+
+const context = createAsyncContext<ScopeState>();
+
+// Set while a scoped factory runs, so `batch()` can add the scope ID to its name.
+let creatingScopeId: string | undefined;
+
+/** The ID of the scope whose batcher is being created, if any. */
+export function currentScopeId(): string | undefined {
+  return creatingScopeId;
+}
+
+const states = new WeakMap<Scope, ScopeState>();
+let scopeCounter = 0;
+
+/**
+ * Creates a scope, usually one per incoming request. Batchers from
+ * `scoped()` are created once per scope and aborted when it is disposed.
+ */
+export function createScope(id?: string): Scope {
+  const scope: Scope = {
+    id: id ?? `scope-${++scopeCounter}`,
+    run(callback) {
+      return context.run(state, callback);
+    },
+    dispose() {
+      if (state.disposed) return;
+      state.disposed = true;
+      for (const batcher of state.batchers.values()) {
+        batcher.abort();
+      }
+      state.batchers.clear();
+    },
+    get disposed() {
+      return state.disposed;
+    },
+  };
+  const state: ScopeState = { scope, batchers: new Map(), disposed: false };
+  states.set(scope, state);
+  return scope;
+}
+
+/** Runs `callback` in a new scope and disposes the scope once it settles. */
+export async function withScope<T>(
+  callback: (scope: Scope) => T | Promise<T>,
+  id?: string,
+): Promise<T> {
+  const scope = createScope(id);
+  try {
+    return await scope.run(() => callback(scope));
+  } finally {
+    scope.dispose();
+  }
+}
+
+/**
+ * Wraps a batcher factory so each scope gets its own batcher, and with it
+ * its own dedup, cache and circuit state. The result finds the current scope
+ * through AsyncLocalStorage; use `.in(scope)` where that isn't available.
+ */
+export function scoped<K, V>(
+  factory: () => Batcher<K, V>,
+): ScopedBatcher<K, V> {
+  const token = {};
+
+  function resolve(state: ScopeState): Batcher<K, V> {
+    if (state.disposed) {
+      throw new BatchError(`Scope ${state.scope.id} has been disposed.`);
+    }
+
+    let batcher = state.batchers.get(token) as Batcher<K, V> | undefined;
+    if (!batcher) {
+      const previous = creatingScopeId;
+      creatingScopeId = state.scope.id;
+      try {
+        batcher = factory();
+      } finally {
+        creatingScopeId = previous;
+      }
+      state.batchers.set(token, batcher as Batcher<never, unknown>);
+    }
+    return batcher;
+  }
+
+  function current(): Batcher<K, V> {
+    const state = context.get();
+    if (!state) {
+      // Without AsyncLocalStorage, e.g. on Node before 20.16, scopes end at
+      // the first `await`, so say so rather than blame the caller.
+      throw new BatchError(
+        context.isAsync
+          ? 'Scoped batcher used outside a scope. Wrap the request in withScope() or scope.run(), or use .in(scope).'
+          : 'Scoped batcher used outside a scope. This runtime has no AsyncLocalStorage, so scopes only cover synchronous code; use .in(scope) instead.',
+      );
+    }
+    return resolve(state);
+  }
+
+  function get(key: K, options?: GetOptions): Promise<V>;
+  function get(keys: K[], options?: GetOptions): Promise<V[]>;
+  function get(keyOrKeys: K | K[], options?: GetOptions): Promise<V | V[]> {
+    let batcher: Batcher<K, V>;
+    try {
+      batcher = current();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    return Array.isArray(keyOrKeys)
+      ? batcher.get(keyOrKeys, options)
+      : batcher.get(keyOrKeys, options);
+  }
+
+  return {
+    get,
+    flush: () => current().flush(),
+    abort: () => current().abort(),
+    prime: (key, value, meta) => current().prime(key, value, meta),
+    clear: (key, meta) => current().clear(key, meta),
+    clearAll: () => current().clearAll(),
+    get name() {
+      return current().name;
+    },
+    get state() {
+      return current().state;
+    },
+    in(scope) {
+      const state = states.get(scope);
+      if (!state) {
+        throw new BatchError('Scope was not created by createScope().');
+      }
+      return resolve(state);
+    },
+  };
+}
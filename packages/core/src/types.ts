@@ -1,11 +1,59 @@
+/**
+ * Values may be replaced by `Error` instances to reject only the affected
+ * keys while the rest of the batch resolves.
+ */
+export type BatchResult<V> =
+  | (V | Error)[]
+  | Record<string, V | Error>
+  | Map<unknown, V | Error>;
+
+/** Passed to the batch function as its third argument. */
+export interface BatchContext {
+  /** The same signal as the second argument. */
+  signal: AbortSignal;
+  batchId: string;
+  /**
+   * `metas[i]` lists the `meta` of every caller waiting on `keys[i]`, in the
+   * order they called `get`. Callers without `meta` are left out.
+   */
+  metas: unknown[][];
+  /** `1` for the first call, counting up with each retry. */
+  attempt: number;
+  /** Label shared by every key in the batch, when the `group` option is set. */
+  group?: string;
+  /** Records in the trace that this batch was sent by a shared transport call. */
+  link(transportId: string): void;
+}
+
 export type BatchFn<K, V> = (
   keys: K[],
   signal: AbortSignal,
-) => Promise<V[] | Record<string, V>>;
+  context: BatchContext,
+) => Promise<BatchResult<V>>;
+
+type PathDepth = [never, 0, 1, 2, 3];
+
+/** Property names of `V`, plus dotted paths into nested objects. */
+export type FieldPath<V, D extends number = 4> = [D] extends [never]
+  ? never
+  : V extends readonly unknown[] | Date | ((...args: never[]) => unknown)
+    ? never
+    : V extends object
+      ? {
+          [P in keyof V & (string | number)]:
+            | `${P}`
+            | `${P}.${FieldPath<NonNullable<V[P]>, PathDepth[D]>}`;
+        }[keyof V & (string | number)]
+      : never;
+
+/** A single field or path, or several of them for composite keys. */
+export type FieldMatch<V> = keyof V | FieldPath<V> | readonly FieldPath<V>[];
 
 export type Match<K, V> =
-  | keyof V
+  | FieldMatch<V>
   | typeof import('./indexed').indexed
+  | typeof import('./ordered').ordered
+  | import('./keyed').Keyed<V>
   | MatchFn<K, V>;
 
 export type MatchFn<K, V> = (results: V[], key: K) => V | undefined;
@@ -15,32 +63,210 @@ export type IndexedMatchFn<K, V> = (
   key: K,
 ) => V | undefined;
 
-export type Scheduler = (dispatch: () => void) => () => void;
+/** What a scheduler can observe about the queue it is scheduling. */
+export interface SchedulerContext {
+  /** Unique keys currently queued. */
+  readonly size: number;
+  /** `performance.now()` when the first of the queued keys was requested. */
+  readonly firstEnqueuedAt: number;
+  /**
+   * Calls `listener` whenever another key joins the queue while the
+   * scheduler is pending. Returns a function that unsubscribes.
+   */
+  onEnqueue(listener: () => void): () => void;
+}
+
+export interface AdaptiveOptions {
+  /** Shortest window in ms. `0` dispatches on the next microtask. Default: 0. */
+  min?: number;
+  /** Longest window in ms. Default: 50. */
+  max?: number;
+  /** Weight of the newest sample in the moving averages, from 0 to 1. Default: 0.2. */
+  smoothing?: number;
+}
+
+/** Reported to schedulers after each call to the batch function resolves. */
+export interface BatchStats {
+  /** Keys passed to the batch function. */
+  size: number;
+  /** Milliseconds the batch function took. */
+  duration: number;
+}
+
+/** Calls `dispatch` when the queue should go out and returns a cleanup function. */
+export type Scheduler = ((
+  dispatch: () => void,
+  context: SchedulerContext,
+) => () => void) & {
+  /** Receives stats for every resolved batch, for schedulers that adapt. */
+  observe?: (stats: BatchStats) => void;
+  /**
+   * Resolves once the batch function may be called, for schedulers that
+   * limit the call rate. Awaited before every call, retries included.
+   */
+  acquire?: (signal: AbortSignal) => Promise<void>;
+  /** The batching window in milliseconds, for schedulers that have one. */
+  readonly window?: number;
+};
+
+/**
+ * What caused a batch to be dispatched: the scheduler, reaching `max`, a
+ * high-priority get, a get whose `deadline` was approaching, or the end of a
+ * `batchScope()` round.
+ */
+export type ScheduleTrigger =
+  | 'scheduler'
+  | 'size'
+  | 'priority'
+  | 'deadline'
+  | 'round';
+
+/**
+ * `high` dispatches the queue right away, `low` waits for `lowSchedule`, and
+ * `normal` waits for the batcher's own scheduler.
+ */
+export type Priority = 'high' | 'normal' | 'low';
 
 export type TraceHandler<K = unknown> = (event: TraceEvent<K>) => void;
 
 export type TraceEventData<K = unknown> =
-  | { type: 'get'; key: K }
-  | { type: 'dedup'; key: K }
-  | { type: 'schedule'; batchId: string; size: number }
-  | { type: 'dispatch'; batchId: string; keys: K[] }
+  | { type: 'get'; key: K; priority: Priority }
+  | { type: 'dedup'; key: K; batchId?: string }
+  | { type: 'cache-hit'; key: K }
+  | { type: 'cache-miss'; key: K }
+  | {
+      type: 'schedule';
+      batchId: string;
+      size: number;
+      trigger: ScheduleTrigger;
+      /** The scheduler's batching window when it exposes one, e.g. `adaptive()`. */
+      window?: number;
+      group?: string;
+    }
+  | { type: 'dispatch'; batchId: string; keys: K[]; group?: string }
   | { type: 'resolve'; batchId: string; duration: number }
   | { type: 'error'; batchId: string; error: Error }
+  | {
+      type: 'partial';
+      batchId: string;
+      failed: number;
+      missing: number;
+      total: number;
+    }
+  | {
+      type: 'retry';
+      batchId: string;
+      attempt: number;
+      keys: K[];
+      delay: number;
+      /** The error being retried. Absent when retrying missing keys. */
+      error?: Error;
+    }
+  | {
+      type: 'timeout';
+      timeout: number;
+      /** Set when a chunk timed out, or when a timed-out caller was in flight. */
+      batchId?: string;
+      /** Set when a single caller timed out. */
+      key?: K;
+    }
+  | { type: 'circuit'; state: CircuitState; previous: CircuitState }
+  | { type: 'transport'; batchId: string; transportId: string }
   | { type: 'abort'; batchId: string };
 
 export type TraceEvent<K = unknown> = TraceEventData<K> & { timestamp: number };
 
+export interface CacheEntry<V = unknown> {
+  value: V;
+  expiresAt: number;
+}
+
+export interface CacheStore<V = unknown> {
+  get(key: unknown): CacheEntry<V> | undefined;
+  set(key: unknown, entry: CacheEntry<V>): void;
+  delete(key: unknown): void;
+  clear(): void;
+}
+
+export interface CacheOptions<V = unknown> {
+  /** Milliseconds an entry stays fresh. Entries never expire when omitted. */
+  ttl?: number;
+  /** Maximum entries kept by the default LRU store. Ignored with `store`. */
+  max?: number;
+  store?: CacheStore<V>;
+}
+
+export interface RetryOptions {
+  /** Total attempts, including the first call. Default: 3. */
+  attempts?: number;
+  /** Milliseconds before the first retry, doubled for each retry after it. Default: 100. */
+  delay?: number;
+  /** Upper bound for a single backoff delay. Default: 30000. */
+  maxDelay?: number;
+  /** Randomize each delay between half and all of its value. Default: true. */
+  jitter?: boolean;
+  /** Return `false` to reject without retrying. Aborts are never retried. */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Refetch only the keys with no result instead of rejecting them. Default: false. */
+  retryMissing?: boolean;
+}
+
+/**
+ * `closed` lets every chunk through, `open` rejects callers right away, and
+ * `half-open` lets a single trial chunk decide whether to close again.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitOptions {
+  /** Number of recent chunks the error rate is computed over. Default: 10. */
+  window?: number;
+  /** Chunks required in the window before the circuit can open. Default: 5. */
+  minChunks?: number;
+  /** Error rate, from 0 to 1, at which the circuit opens. Default: 0.5. */
+  threshold?: number;
+  /** Milliseconds the circuit stays open before a trial chunk. Default: 30000. */
+  resetTimeout?: number;
+}
+
 export interface BatchOptions<K = unknown> {
   wait?: number;
   schedule?: Scheduler;
   max?: number;
+  /** Maximum chunks in flight at once when `max` splits a batch. Default: 1. */
+  concurrency?: number;
   key?: (k: K) => unknown;
   name?: string;
   trace?: TraceHandler<K>;
+  cache?: boolean | CacheOptions;
+  /** Retry failed chunks. A number sets the total attempts. */
+  retry?: number | RetryOptions;
+  /** Milliseconds before a chunk, retries included, is aborted with a `TimeoutError`. */
+  timeout?: number;
+  /** Stop calling `fn` while it keeps failing. */
+  circuit?: boolean | CircuitOptions;
+  /** Scheduler for low-priority gets. Default: `onIdle()`. */
+  lowSchedule?: Scheduler;
+  /**
+   * Keeps a separate queue per returned label. Keys with different labels
+   * never share a call to `fn`, so labelling by `meta` keeps callers with
+   * incompatible metadata apart.
+   */
+  group?: (key: K, meta: unknown) => string;
 }
 
 export interface GetOptions {
   signal?: AbortSignal;
+  /** Milliseconds before this caller rejects with a `TimeoutError`. */
+  timeout?: number;
+  /** Default: `normal`. */
+  priority?: Priority;
+  /**
+   * Time, as from `Date.now()`, by which a result is needed. The queue is
+   * dispatched early enough for a typical batch to finish before it.
+   */
+  deadline?: number;
+  /** Passed to the batch function in `metas`, e.g. auth headers or a locale. */
+  meta?: unknown;
 }
 
 export interface Batcher<K, V> {
@@ -48,7 +274,96 @@ export interface Batcher<K, V> {
   get(keys: K[], options?: GetOptions): Promise<V[]>;
   flush(): Promise<void>;
   abort(): void;
+  /** With the `group` option, `meta` picks the group the value is cached for. */
+  prime(key: K, value: V, meta?: unknown): void;
+  clear(key: K, meta?: unknown): void;
+  clearAll(): void;
   readonly name?: string;
+  /** Always `closed` without the `circuit` option. */
+  readonly state: CircuitState;
+}
+
+/** A unit of isolation for `scoped()` batchers, such as one server request. */
+export interface Scope {
+  readonly id: string;
+  /** Runs `callback` with this scope as the current one. */
+  run<T>(callback: () => T): T;
+  /** Aborts the scope's batchers. Using them afterwards throws. */
+  dispose(): void;
+  readonly disposed: boolean;
+}
+
+export interface ScopedBatcher<K, V> extends Batcher<K, V> {
+  /** The batcher for `scope`, for runtimes without AsyncLocalStorage. */
+  in(scope: Scope): Batcher<K, V>;
+}
+
+/**
+ * Sends the batches collected by `multiplex()` in one call. `requests` maps
+ * each channel name to its keys; the response maps each name to that
+ * channel's results, in any shape its batcher can match.
+ */
+export type Transport = (
+  requests: Record<string, unknown[]>,
+  signal: AbortSignal,
+  context: { transportId: string },
+) => Promise<Record<string, BatchResult<unknown>>>;
+
+export interface MultiplexOptions {
+  /** Milliseconds to collect batches before sending. Default: 0 (microtask). */
+  wait?: number;
+  schedule?: Scheduler;
+  /** Prefix for transport IDs in traces. Default: `transport`. */
+  name?: string;
+}
+
+export interface Multiplexer {
+  /** A batch function that sends its keys through the shared transport. */
+  channel<K, V>(name: string): BatchFn<K, V>;
+}
+
+export interface HttpBatchOptions<K> {
+  url: string | URL;
+  /** `GET` sends keys in the `keys` query parameter, other methods in a JSON body. Default: `GET`. */
+  method?: string;
+  headers?: Record<string, string>;
+  /**
+   * The `keys` query parameter for `GET`, or the request body otherwise.
+   * Default: one `keys` parameter per key for `GET`, `{ "keys": [...] }`
+   * otherwise.
+   */
+  encodeKeys?: (keys: K[]) => string;
+  fetch?: (input: string | URL, init: RequestInit) => Promise<Response>;
+}
+
+/** Resolves the decoded keys of one HTTP batch request. */
+export type BatchResolver<V> = (
+  keys: string[],
+  request: Request,
+) => Promise<Record<string, V | Error> | Map<unknown, V | Error>>;
+
+export interface BatchHandlerOptions {
+  /** Largest batch accepted; bigger ones get a 413. Default: 1000. */
+  max?: number;
+  /** Reads the keys from a request. Throw to respond with a 400. */
+  decodeKeys?: (request: Request) => string[] | Promise<string[]>;
+  /**
+   * Called when the resolver throws, e.g. for logging. Return a response to
+   * send instead of the default 500 `{ "error": "Internal error" }`, whose
+   * body never includes the error's message.
+   */
+  onError?: (
+    error: Error,
+    request: Request,
+  ) => Response | undefined | Promise<Response | undefined>;
+}
+
+/** Passed to the `batchScope()` callback. */
+export interface BatchScope {
+  /** Keeps the current round open until `promise` settles, and returns it. */
+  track<T>(promise: Promise<T>): Promise<T>;
+  /** Rounds dispatched so far. */
+  readonly rounds: number;
 }
 
 export interface PendingRequest<K, V> {
@@ -56,5 +371,6 @@ export interface PendingRequest<K, V> {
   resolve: (value: V) => void;
   reject: (error: Error) => void;
   signal?: AbortSignal;
+  meta?: unknown;
   aborted: boolean;
 }
@@ -1,5 +1,18 @@
 import { describe, expect, it, mock } from 'bun:test';
-import { BatchError, batch, indexed, type TraceEvent } from '../src';
+import {
+  any,
+  type BatchContext,
+  BatchError,
+  batch,
+  grouped,
+  indexed,
+  keyed,
+  ordered,
+  size,
+  TimeoutError,
+  type TraceEvent,
+  wait,
+} from '../src';
 
 describe('batch', () => {
   describe('basic functionality', () => {
@@ -22,7 +35,11 @@ describe('batch', () => {
         { id: 'c', name: 'User c' },
       ]);
       expect(fn).toHaveBeenCalledTimes(1);
-      expect(fn).toHaveBeenCalledWith(['a', 'b', 'c'], expect.any(AbortSignal));
+      expect(fn).toHaveBeenCalledWith(
+        ['a', 'b', 'c'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
     });
 
     it('should return correct results for each key', async () => {
@@ -51,7 +68,11 @@ describe('batch', () => {
       const result = await users.get('single');
 
       expect(result).toEqual({ id: 'single' });
-      expect(fn).toHaveBeenCalledWith(['single'], expect.any(AbortSignal));
+      expect(fn).toHaveBeenCalledWith(
+        ['single'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
     });
   });
 
@@ -90,6 +111,7 @@ describe('batch', () => {
       expect(fn).toHaveBeenCalledWith(
         ['one', 'two', 'three'],
         expect.any(AbortSignal),
+        expect.anything(),
       );
     });
   });
@@ -119,6 +141,7 @@ describe('batch', () => {
       expect(fn).toHaveBeenCalledWith(
         ['same', 'different'],
         expect.any(AbortSignal),
+        expect.anything(),
       );
     });
 
@@ -159,207 +182,1503 @@ describe('batch', () => {
 
       const users = batch(fn, indexed);
 
-      const results = await Promise.all([users.get('alice'), users.get('bob')]);
+      const results = await Promise.all([users.get('alice'), users.get('bob')]);
+
+      expect(results).toEqual([{ name: 'User alice' }, { name: 'User bob' }]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('grouped matching', () => {
+    type Post = { id: number; authorId: number; title: string };
+
+    const posts: Post[] = [
+      { id: 1, authorId: 1, title: 'First' },
+      { id: 2, authorId: 2, title: 'Second' },
+      { id: 3, authorId: 1, title: 'Third' },
+    ];
+
+    it('should resolve every row matching the key', async () => {
+      const fn = mock(async (authorIds: number[]) =>
+        posts.filter((p) => authorIds.includes(p.authorId)),
+      );
+
+      const postsByAuthor = batch(fn, grouped('authorId'));
+
+      const [first, second] = await Promise.all([
+        postsByAuthor.get(1),
+        postsByAuthor.get(2),
+      ]);
+
+      expect(first).toEqual([posts[0], posts[2]]);
+      expect(second).toEqual([posts[1]]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve to an empty array when nothing matches', async () => {
+      const postsByAuthor = batch(
+        async (authorIds: number[]) =>
+          posts.filter((p) => authorIds.includes(p.authorId)),
+        grouped('authorId'),
+      );
+
+      const result: Post[] = await postsByAuthor.get(99);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should group within each chunk when max splits a batch', async () => {
+      const fn = mock(async (authorIds: number[]) =>
+        posts.filter((p) => authorIds.includes(p.authorId)),
+      );
+
+      const postsByAuthor = batch(fn, grouped('authorId'), { max: 1 });
+
+      const results = await postsByAuthor.get([1, 2]);
+
+      expect(results).toEqual([[posts[0], posts[2]], [posts[1]]]);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should group rows through the key function', async () => {
+      const fn = mock(async (authorIds: (string | number)[]) =>
+        posts.filter((p) => authorIds.map(String).includes(String(p.authorId))),
+      );
+
+      const postsByAuthor = batch(fn, grouped('authorId'), {
+        key: (k) => String(k),
+      });
+
+      const [byString, byNumber] = await Promise.all([
+        postsByAuthor.get('1'),
+        postsByAuthor.get(1),
+      ]);
+
+      expect(byString).toEqual([posts[0], posts[2]]);
+      expect(byNumber).toEqual([posts[0], posts[2]]);
+      expect(fn).toHaveBeenCalledWith(
+        ['1'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('Map results', () => {
+    it('should match bigint keys exactly and infer the value type', async () => {
+      const fn = mock(
+        async (ids: bigint[]) =>
+          new Map(ids.map((id) => [id, { id, doubled: id * 2n }])),
+      );
+
+      const accounts = batch(fn, indexed);
+
+      const account: { id: bigint; doubled: bigint } =
+        await accounts.get(9007199254740993n);
+
+      expect(account).toEqual({
+        id: 9007199254740993n,
+        doubled: 18014398509481986n,
+      });
+    });
+
+    it('should match object keys returned by reference', async () => {
+      type Query = { orgId: string; userId: string };
+
+      const members = batch(
+        async (queries: Query[]) =>
+          new Map(queries.map((q) => [q, { role: `${q.orgId}:${q.userId}` }])),
+        indexed,
+        { key: (q) => `${q.orgId}/${q.userId}` },
+      );
+
+      const results = await Promise.all([
+        members.get({ orgId: 'a', userId: '1' }),
+        members.get({ orgId: 'b', userId: '1' }),
+      ]);
+
+      expect(results).toEqual([{ role: 'a:1' }, { role: 'b:1' }]);
+    });
+
+    it('should match Maps keyed by the cache key', async () => {
+      type Query = { orgId: string; userId: string };
+
+      const members = batch(
+        async (queries: Query[]) =>
+          new Map(
+            queries.map((q) => [`${q.orgId}/${q.userId}`, { user: q.userId }]),
+          ),
+        indexed,
+        { key: (q) => `${q.orgId}/${q.userId}` },
+      );
+
+      expect(await members.get({ orgId: 'a', userId: '1' })).toEqual({
+        user: '1',
+      });
+    });
+
+    it('should match equal object keys through the key option', async () => {
+      type Query = { orgId: string; userId: string };
+
+      const members = batch(
+        async (queries: Query[]) =>
+          new Map(
+            // Simulate keys that were serialized and parsed again
+            queries.map((q) => [{ ...q }, { user: q.userId }]),
+          ),
+        indexed,
+        { key: (q) => `${q.orgId}/${q.userId}` },
+      );
+
+      expect(await members.get({ orgId: 'a', userId: '2' })).toEqual({
+        user: '2',
+      });
+    });
+
+    it('should look up Record results by the cache key', async () => {
+      const users = batch(
+        async (keys: { id: number }[]) =>
+          Object.fromEntries(keys.map((k) => [k.id, { name: `User ${k.id}` }])),
+        indexed,
+        { key: (k) => k.id },
+      );
+
+      expect(await users.get({ id: 7 })).toEqual({ name: 'User 7' });
+    });
+  });
+
+  describe('ordered matching', () => {
+    it('should match results by position to the deduplicated keys', async () => {
+      const fn = mock(async (keys: number[]) =>
+        keys.map((k) => ({ value: k * 10 })),
+      );
+
+      const items = batch(fn, ordered);
+
+      const results = await Promise.all([
+        items.get(3),
+        items.get(1),
+        items.get(3),
+      ]);
+
+      expect(results).toEqual([{ value: 30 }, { value: 10 }, { value: 30 }]);
+      expect(fn).toHaveBeenCalledWith(
+        [3, 1],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should reject with a BatchError naming the batch on length mismatch', async () => {
+      const items = batch(
+        async (keys: number[]) => keys.slice(1).map((k) => ({ value: k })),
+        ordered,
+        { name: 'rpc' },
+      );
+
+      const result = await items.get([1, 2, 3]).catch((e) => e);
+
+      expect(result).toBeInstanceOf(BatchError);
+      expect(result.message).toContain('rpc-1');
+      expect(result.message).toContain('returned 2 results for 3 keys');
+    });
+
+    it('should reject only positions that hold an Error', async () => {
+      const items = batch(
+        async (keys: number[]) =>
+          keys.map((k) => (k === 2 ? new Error('Bad key') : { value: k })),
+        ordered,
+      );
+
+      const results = await Promise.allSettled([items.get(1), items.get(2)]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: { value: 1 } });
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        'Bad key',
+      );
+    });
+
+    it('should align each chunk separately when max splits a batch', async () => {
+      const fn = mock(async (keys: number[]) =>
+        keys.map((k) => ({ value: k })),
+      );
+
+      const items = batch(fn, ordered, { max: 2 });
+
+      const results = await items.get([1, 2, 3]);
+
+      expect(results).toEqual([{ value: 1 }, { value: 2 }, { value: 3 }]);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('indexed field matching', () => {
+    it('should match field values through the key function', async () => {
+      const users = batch(
+        async (ids: (string | number)[]) =>
+          ids.map((id) => ({ id: Number(id), name: `User ${id}` })),
+        'id',
+        { key: (k) => String(k) },
+      );
+
+      const [fromString, fromNumber] = await Promise.all([
+        users.get('1'),
+        users.get(1),
+      ]);
+
+      expect(fromString).toEqual({ id: 1, name: 'User 1' });
+      expect(fromNumber).toEqual({ id: 1, name: 'User 1' });
+    });
+
+    it('should resolve the first row when several share a key', async () => {
+      const items = batch(
+        async (keys: number[]) =>
+          keys.flatMap((k) => [
+            { id: k, copy: 1 },
+            { id: k, copy: 2 },
+          ]),
+        'id',
+      );
+
+      expect(await items.get(1)).toEqual({ id: 1, copy: 1 });
+    });
+
+    it('should read each row once regardless of batch size', async () => {
+      let reads = 0;
+      const keys = Array.from({ length: 5000 }, (_, i) => i);
+
+      const items = batch(
+        async (ids: number[]) =>
+          ids.map((id) => ({
+            get id() {
+              reads++;
+              return id;
+            },
+          })),
+        'id',
+      );
+
+      const results = await items.get(keys);
+
+      expect(results).toHaveLength(5000);
+      expect(reads).toBe(5000);
+    });
+  });
+
+  describe('composite and nested field matching', () => {
+    type Membership = { orgId: string; userId: number; role: string };
+
+    it('should match composite keys field by field', async () => {
+      const fn = mock(
+        async (
+          keys: { orgId: string; userId: number }[],
+        ): Promise<Membership[]> =>
+          keys.map((k) => ({ ...k, role: `${k.orgId}-${k.userId}` })),
+      );
+
+      const memberships = batch(fn, ['orgId', 'userId']);
+
+      const [a, b] = await Promise.all([
+        memberships.get({ orgId: 'acme', userId: 1 }),
+        memberships.get({ orgId: 'globex', userId: 1 }),
+      ]);
+
+      expect(a.role).toBe('acme-1');
+      expect(b.role).toBe('globex-1');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dedupe composite keys with the key option', async () => {
+      const fn = mock(
+        async (
+          keys: { orgId: string; userId: number }[],
+        ): Promise<Membership[]> => keys.map((k) => ({ ...k, role: 'member' })),
+      );
+
+      const memberships = batch(fn, ['orgId', 'userId'], {
+        key: (k) => `${k.orgId}/${k.userId}`,
+      });
+
+      await Promise.all([
+        memberships.get({ orgId: 'acme', userId: 1 }),
+        memberships.get({ orgId: 'acme', userId: 1 }),
+      ]);
+
+      expect(fn).toHaveBeenCalledWith(
+        [{ orgId: 'acme', userId: 1 }],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should reject composite keys without a matching row', async () => {
+      const memberships = batch(
+        async (keys: { orgId: string; userId: number }[]) =>
+          keys
+            .filter((k) => k.orgId !== 'missing')
+            .map((k) => ({ ...k, role: 'member' })),
+        ['orgId', 'userId'],
+      );
+
+      const result = await memberships
+        .get({ orgId: 'missing', userId: 1 })
+        .catch((e) => e);
+
+      expect(result).toBeInstanceOf(BatchError);
+    });
+
+    it('should match dotted paths into nested rows', async () => {
+      type Post = { title: string; author: { id: number } };
+
+      const posts = batch(
+        async (authorIds: number[]): Promise<Post[]> =>
+          authorIds.map((id) => ({ title: `Post ${id}`, author: { id } })),
+        'author.id',
+      );
+
+      expect(await posts.get(2)).toEqual({
+        title: 'Post 2',
+        author: { id: 2 },
+      });
+    });
+
+    it('should prefer a flat property whose name contains a dot', async () => {
+      type Row = { 'user.id': number; name: string };
+
+      const users = batch(
+        async (ids: number[]): Promise<Row[]> =>
+          ids.map((id) => ({ 'user.id': id, name: `User ${id}` })),
+        'user.id',
+      );
+
+      expect(await users.get(1)).toEqual({ 'user.id': 1, name: 'User 1' });
+    });
+
+    it('should group by nested and composite fields', async () => {
+      type Comment = { post: { id: number }; body: string };
+
+      const comments = batch(
+        async (postIds: number[]): Promise<Comment[]> =>
+          postIds.flatMap((id) => [
+            { post: { id }, body: 'first' },
+            { post: { id }, body: 'second' },
+          ]),
+        grouped('post.id'),
+      );
+
+      const memberships = batch(
+        async (
+          keys: { orgId: string; userId: number }[],
+        ): Promise<Membership[]> => keys.map((k) => ({ ...k, role: 'member' })),
+        grouped(['orgId', 'userId']),
+      );
+
+      const [postComments, orgMembers] = await Promise.all([
+        comments.get(1),
+        memberships.get({ orgId: 'acme', userId: 1 }),
+      ]);
+
+      expect(postComments.map((c) => c.body)).toEqual(['first', 'second']);
+      expect(orgMembers).toEqual([
+        { orgId: 'acme', userId: 1, role: 'member' },
+      ]);
+    });
+
+    it('should type-check paths against the result type', () => {
+      const fn = async (ids: number[]) => ids.map((id) => ({ author: { id } }));
+
+      // @ts-expect-error - 'author.name' is not a path of the result
+      expect(() => batch(fn, 'author.name')).not.toThrow();
+      // @ts-expect-error - 'missing' is not a field of the result
+      expect(() => batch(fn, ['author.id', 'missing'])).not.toThrow();
+    });
+  });
+
+  describe('keyed matching', () => {
+    it('should match rows by an extracted key', async () => {
+      type Account = { externalId: string; balance: number };
+
+      const fn = mock(
+        async (ids: string[]): Promise<Account[]> =>
+          ids.map((id) => ({ externalId: id, balance: id.length })),
+      );
+
+      const accounts = batch(
+        fn,
+        keyed((row) => row.externalId),
+      );
+
+      const [a, b] = await Promise.all([
+        accounts.get('ext-a'),
+        accounts.get('ext-bb'),
+      ]);
+
+      expect(a).toEqual({ externalId: 'ext-a', balance: 5 });
+      expect(b).toEqual({ externalId: 'ext-bb', balance: 6 });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject keys the extractor never produces', async () => {
+      const accounts = batch(
+        async (ids: string[]) => ids.slice(1).map((id) => ({ ref: { id } })),
+        keyed((row) => row.ref.id),
+      );
+
+      const results = await Promise.allSettled([
+        accounts.get('a'),
+        accounts.get('b'),
+      ]);
+
+      expect((results[0] as PromiseRejectedResult).reason).toBeInstanceOf(
+        BatchError,
+      );
+      expect(results[1]).toEqual({
+        status: 'fulfilled',
+        value: { ref: { id: 'b' } },
+      });
+    });
+  });
+
+  describe('custom match function', () => {
+    it('should use custom match function', async () => {
+      type Post = { authorId: number; title: string };
+
+      const fn = mock(async (authorIds: number[]): Promise<Post[]> => {
+        return authorIds.map((id) => ({
+          authorId: id,
+          title: `Post by ${id}`,
+        }));
+      });
+
+      const posts = batch(fn, (results, authorId: number) =>
+        results.find((p) => p.authorId === authorId),
+      );
+
+      const [post1, post2] = await Promise.all([posts.get(1), posts.get(2)]);
+
+      expect(post1).toEqual({ authorId: 1, title: 'Post by 1' });
+      expect(post2).toEqual({ authorId: 2, title: 'Post by 2' });
+    });
+  });
+
+  describe('max batch size', () => {
+    it('should split large batches into chunks', async () => {
+      const fn = mock(async (keys: number[]) => {
+        return keys.map((k) => ({ id: k, value: k * 10 }));
+      });
+
+      const items = batch(fn, 'id', { max: 2 });
+
+      const results = await Promise.all([
+        items.get(1),
+        items.get(2),
+        items.get(3),
+        items.get(4),
+        items.get(5),
+      ]);
+
+      expect(results).toEqual([
+        { id: 1, value: 10 },
+        { id: 2, value: 20 },
+        { id: 3, value: 30 },
+        { id: 4, value: 40 },
+        { id: 5, value: 50 },
+      ]);
+      // Should be called 3 times: [1,2], [3,4], [5]
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should dispatch as soon as the queue reaches max', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { wait: 50, max: 2 });
+
+      const first = items.get([1, 2]);
+      await Promise.resolve();
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+
+      const rest = items.get(3);
+      await first;
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await rest;
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenLastCalledWith(
+        [3],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should not count duplicate keys toward max', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { wait: 10, max: 2 });
+
+      const results = items.get([1, 1, 1]);
+      expect(fn).not.toHaveBeenCalled();
+
+      await results;
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should trace what triggered each dispatch', async () => {
+      const events: TraceEvent<number>[] = [];
+
+      const items = batch(
+        async (keys: number[]) => keys.map((k) => ({ id: k })),
+        'id',
+        { wait: 10, max: 2, trace: (event) => events.push(event) },
+      );
+
+      await items.get([1, 2, 3]);
+
+      const schedules = events.flatMap((e) =>
+        e.type === 'schedule' ? [`${e.batchId}:${e.trigger}`] : [],
+      );
+      // The first batch is scheduled, then fills up before the timer fires.
+      expect(schedules).toEqual([
+        'batch-1:scheduler',
+        'batch-1:size',
+        'batch-2:scheduler',
+      ]);
+    });
+  });
+
+  describe('concurrency', () => {
+    function trackedFetch(delays: Record<number, number> = {}) {
+      let active = 0;
+      let peak = 0;
+      const fn = mock(async (keys: number[]) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((r) => setTimeout(r, delays[keys[0]] ?? 10));
+        active--;
+        return keys.map((k) => ({ id: k }));
+      });
+      return { fn, peak: () => peak };
+    }
+
+    it('should dispatch chunks one at a time by default', async () => {
+      const { fn, peak } = trackedFetch();
+
+      const items = batch(fn, 'id', { max: 1 });
+      await items.get([1, 2, 3]);
+
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(peak()).toBe(1);
+    });
+
+    it('should run up to concurrency chunks at once', async () => {
+      const { fn, peak } = trackedFetch();
+
+      const items = batch(fn, 'id', { max: 1, concurrency: 2 });
+      const results = await items.get([1, 2, 3, 4, 5]);
+
+      expect(results.map((r) => r.id)).toEqual([1, 2, 3, 4, 5]);
+      expect(fn).toHaveBeenCalledTimes(5);
+      expect(peak()).toBe(2);
+    });
+
+    it('should not hold separate batches behind each other', async () => {
+      const { fn, peak } = trackedFetch({ 1: 50 });
+
+      const items = batch(fn, 'id');
+      const slow = items.get(1);
+      await new Promise((r) => setTimeout(r, 5));
+      await items.get(2);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(peak()).toBe(2);
+      await slow;
+    });
+
+    it('should resolve callers as soon as their chunk finishes', async () => {
+      const { fn } = trackedFetch({ 1: 5, 2: 100 });
+
+      const items = batch(fn, 'id', { max: 1, concurrency: 2 });
+      const fast = items.get(1);
+      const slow = items.get(2);
+
+      const winner = await Promise.race([
+        fast.then(() => 'fast'),
+        slow.then(() => 'slow'),
+      ]);
+
+      expect(winner).toBe('fast');
+      await slow;
+    });
+
+    it('should trace each chunk with its own batch and timing', async () => {
+      const events: TraceEvent<number>[] = [];
+      const { fn } = trackedFetch();
+
+      const items = batch(fn, 'id', {
+        name: 'items',
+        max: 1,
+        concurrency: 3,
+        trace: (event) => events.push(event),
+      });
+      await items.get([1, 2, 3]);
+
+      const resolved = events.filter(
+        (e): e is Extract<TraceEvent<number>, { type: 'resolve' }> =>
+          e.type === 'resolve',
+      );
+      expect(resolved.map((e) => e.batchId).sort()).toEqual([
+        'items-1',
+        'items-2',
+        'items-3',
+      ]);
+      for (const event of resolved) {
+        expect(event.duration).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('error handling', () => {
+    it('should reject all requests when batch function throws', async () => {
+      const items = batch(async () => {
+        throw new Error('Database error');
+      }, 'id');
+
+      const results = await Promise.allSettled([
+        items.get('a'),
+        items.get('b'),
+      ]);
+
+      expect(results[0].status).toBe('rejected');
+      expect(results[1].status).toBe('rejected');
+      expect((results[0] as PromiseRejectedResult).reason.message).toBe(
+        'Database error',
+      );
+    });
+
+    it('should reject with BatchError when key not found in results', async () => {
+      const items = batch(async (keys: string[]) => {
+        // Only return some results
+        return keys.slice(0, 1).map((k) => ({ id: k }));
+      }, 'id');
+
+      const results = await Promise.allSettled([
+        items.get('a'),
+        items.get('b'),
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1].status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+        BatchError,
+      );
+    });
+  });
+
+  describe('per-key errors', () => {
+    it('should reject only keys whose Record value is an Error', async () => {
+      const users = batch(async (keys: string[]) => {
+        const result: Record<string, { name: string } | Error> = {};
+        for (const k of keys) {
+          result[k] = k === 'forbidden' ? new Error('Forbidden') : { name: k };
+        }
+        return result;
+      }, indexed);
+
+      const [ok, forbidden] = await Promise.allSettled([
+        users.get('alice'),
+        users.get('forbidden'),
+      ]);
+
+      expect(ok).toEqual({ status: 'fulfilled', value: { name: 'alice' } });
+      expect(forbidden.status).toBe('rejected');
+      expect((forbidden as PromiseRejectedResult).reason.message).toBe(
+        'Forbidden',
+      );
+    });
+
+    it('should reject only keys whose Map value is an Error', async () => {
+      const users = batch(
+        async (keys: number[]) =>
+          new Map(
+            keys.map((k) => [
+              k,
+              k === 2 ? new Error('Not allowed') : { id: k },
+            ]),
+          ),
+        indexed,
+      );
+
+      const results = await Promise.allSettled([users.get(1), users.get(2)]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: { id: 1 } });
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        'Not allowed',
+      );
+    });
+
+    it('should reject keys matched to Error rows in arrays', async () => {
+      const items = batch(
+        async (keys: number[]) =>
+          keys.map((k) =>
+            k === 2
+              ? Object.assign(new Error(`Failed ${k}`), { id: k })
+              : { id: k },
+          ),
+        'id',
+      );
+
+      const results = await Promise.allSettled([items.get(1), items.get(2)]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: { id: 1 } });
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        'Failed 2',
+      );
+    });
+
+    it('should reject grouped keys that contain an Error row', async () => {
+      const posts = batch(
+        async (authorIds: number[]) =>
+          authorIds.map((authorId) =>
+            authorId === 2
+              ? Object.assign(new Error('Hidden'), { authorId })
+              : { authorId },
+          ),
+        grouped('authorId'),
+      );
+
+      const results = await Promise.allSettled([posts.get(1), posts.get(2)]);
+
+      expect(results[0]).toEqual({
+        status: 'fulfilled',
+        value: [{ authorId: 1 }],
+      });
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        'Hidden',
+      );
+    });
+
+    it('should emit a partial trace event with failure counts', async () => {
+      const events: TraceEvent<string>[] = [];
+
+      const users = batch(
+        async (keys: string[]) => {
+          const result: Record<string, { name: string } | Error> = {};
+          for (const k of keys) {
+            if (k === 'missing') continue;
+            result[k] = k === 'bad' ? new Error('Bad') : { name: k };
+          }
+          return result;
+        },
+        indexed,
+        { name: 'users', trace: (event) => events.push(event) },
+      );
+
+      await Promise.allSettled([
+        users.get('good'),
+        users.get('bad'),
+        users.get('missing'),
+      ]);
+
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'partial',
+          batchId: 'users-1',
+          failed: 1,
+          missing: 1,
+          total: 3,
+        }),
+      );
+    });
+
+    it('should not emit a partial trace event when every key resolves', async () => {
+      const events: TraceEvent<string>[] = [];
+
+      const items = batch(
+        async (keys: string[]) => keys.map((k) => ({ id: k })),
+        'id',
+        { trace: (event) => events.push(event) },
+      );
+
+      await items.get(['a', 'b']);
+
+      expect(events.map((e) => e.type)).not.toContain('partial');
+    });
+  });
+
+  describe('flush', () => {
+    it('should dispatch pending batch immediately', async () => {
+      const fn = mock(async (keys: string[]) => {
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', { wait: 1000 }); // Long wait
+
+      const promises = [items.get('a'), items.get('b')];
+
+      // Not called yet due to wait
+      expect(fn).not.toHaveBeenCalled();
+
+      // Flush immediately
+      await items.flush();
+
+      const results = await Promise.all(promises);
+      expect(results).toEqual([{ id: 'a' }, { id: 'b' }]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should do nothing when called with empty queue', async () => {
+      const fn = mock(async (keys: string[]) => {
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id');
+
+      await items.flush();
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('abort', () => {
+    it('should reject pending requests when abort is called', async () => {
+      const fn = mock(async (keys: string[]) => {
+        await new Promise((r) => setTimeout(r, 100));
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', { wait: 1000 });
+
+      const promise = items.get('a');
+
+      items.abort();
+
+      const result = await promise.catch((e) => e);
+      expect(result).toBeInstanceOf(DOMException);
+      expect(result.name).toBe('AbortError');
+    });
+
+    it('should support per-request abort signal', async () => {
+      const fn = mock(async (keys: string[]) => {
+        await new Promise((r) => setTimeout(r, 50));
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id');
+
+      const controller = new AbortController();
+      const promise = items.get('a', { signal: controller.signal });
+
+      controller.abort();
+
+      const result = await promise.catch((e) => e);
+      expect(result).toBeInstanceOf(DOMException);
+      expect(result.name).toBe('AbortError');
+    });
+
+    it('should reject immediately if signal is already aborted', async () => {
+      const items = batch(
+        async (keys: string[]) => keys.map((k) => ({ id: k })),
+        'id',
+      );
+
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await items
+        .get('a', { signal: controller.signal })
+        .catch((e) => e);
+      expect(result).toBeInstanceOf(DOMException);
+      expect(result.name).toBe('AbortError');
+    });
+
+    it('should handle abort triggered by user callback before listener registration', async () => {
+      const controller = new AbortController();
+
+      const items = batch(
+        async (keys: string[]) => keys.map((k) => ({ id: k })),
+        'id',
+        {
+          trace: () => {
+            // User's trace handler aborts synchronously during get()
+            // This happens after the initial aborted check but before
+            // the abort listener is registered.
+            controller.abort();
+          },
+        },
+      );
+
+      const result = await items
+        .get('a', { signal: controller.signal })
+        .catch((e) => e);
+
+      expect(result).toBeInstanceOf(DOMException);
+      expect(result.name).toBe('AbortError');
+    });
+  });
+
+  describe('timeout', () => {
+    function hanging(ms = 100) {
+      return mock(async (keys: number[], signal: AbortSignal) => {
+        await new Promise((r) => setTimeout(r, ms));
+        signal.throwIfAborted();
+        return keys.map((k) => ({ id: k }));
+      });
+    }
+
+    it('should abort the chunk and reject with a TimeoutError', async () => {
+      const fn = hanging();
+
+      const items = batch(fn, 'id', { timeout: 10 });
+
+      const result = await items.get(1).catch((e) => e);
+
+      expect(result).toBeInstanceOf(TimeoutError);
+      expect(result).toBeInstanceOf(BatchError);
+      expect(result.timeout).toBe(10);
+      expect(fn.mock.calls[0][1].aborted).toBe(true);
+    });
+
+    it('should time out even if fn ignores the signal', async () => {
+      const items = batch(
+        async (keys: number[]) => {
+          await new Promise((r) => setTimeout(r, 30));
+          return keys.map((k) => ({ id: k }));
+        },
+        'id',
+        { timeout: 10 },
+      );
+
+      await expect(items.get(1)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should time out when fn never settles and ignores the signal', async () => {
+      const items = batch(() => new Promise<{ id: number }[]>(() => {}), 'id', {
+        timeout: 20,
+        circuit: { minChunks: 1 },
+      });
+
+      await expect(items.get(1)).rejects.toBeInstanceOf(TimeoutError);
+      expect(items.state).toBe('open');
+    });
+
+    it('should not affect chunks that finish in time', async () => {
+      const items = batch(hanging(5), 'id', { timeout: 50 });
+
+      expect(await items.get(1)).toEqual({ id: 1 });
+    });
+
+    it('should reject only the caller whose timeout elapsed', async () => {
+      const fn = hanging(30);
+
+      const items = batch(fn, 'id');
+
+      const short = items.get(1, { timeout: 10 });
+      const long = items.get(2);
+
+      await expect(short).rejects.toBeInstanceOf(TimeoutError);
+      expect(await long).toEqual({ id: 2 });
+      expect(fn.mock.calls[0][1].aborted).toBe(false);
+    });
+
+    it('should abort the chunk when the last caller times out', async () => {
+      const fn = hanging(30);
+
+      const items = batch(fn, 'id');
+
+      const results = await Promise.allSettled([
+        items.get(1, { timeout: 10 }),
+        items.get(2, { timeout: 10 }),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect(fn.mock.calls[0][1].aborted).toBe(true);
+    });
+
+    it('should time out callers that are still queued', async () => {
+      const fn = hanging(5);
+
+      const items = batch(fn, 'id', { wait: 50 });
+
+      await expect(items.get(1, { timeout: 10 })).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+
+      await new Promise((r) => setTimeout(r, 50));
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should emit timeout trace events', async () => {
+      const events: TraceEvent<number>[] = [];
+
+      const items = batch(hanging(30), 'id', {
+        timeout: 20,
+        trace: (event) => events.push(event),
+      });
+
+      await Promise.allSettled([items.get(1, { timeout: 5 }), items.get(2)]);
+
+      const timeouts = events.filter(
+        (e): e is Extract<TraceEvent<number>, { type: 'timeout' }> =>
+          e.type === 'timeout',
+      );
+
+      expect(timeouts).toEqual([
+        expect.objectContaining({ key: 1, batchId: 'batch-1', timeout: 5 }),
+        expect.objectContaining({ batchId: 'batch-1', timeout: 20 }),
+      ]);
+      expect(events.some((e) => e.type === 'abort')).toBe(false);
+    });
+  });
+
+  describe('priority', () => {
+    it('should dispatch the queue right away for a high-priority get', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { wait: 1000 });
+
+      const queued = items.get('a');
+      const urgent = items.get('b', { priority: 'high' });
+
+      expect(await Promise.all([queued, urgent])).toEqual([
+        { id: 'a' },
+        { id: 'b' },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        ['a', 'b'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should defer low-priority gets to lowSchedule', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { lowSchedule: wait(20) });
+
+      const low = items.get('a', { priority: 'low' });
+      await items.get('b');
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenLastCalledWith(
+        ['b'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+
+      expect(await low).toEqual({ id: 'a' });
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should promote a low-priority key requested at normal priority', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { lowSchedule: wait(1000) });
+
+      const low = items.get('a', { priority: 'low' });
+      const normal = items.get('a');
+
+      expect(await Promise.all([low, normal])).toEqual([
+        { id: 'a' },
+        { id: 'a' },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should join the main queue when a low-priority key is already queued there', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { lowSchedule: wait(1000) });
+
+      const normal = items.get('a');
+      const low = items.get('a', { priority: 'low' });
+
+      expect(await Promise.all([normal, low])).toEqual([
+        { id: 'a' },
+        { id: 'a' },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush and abort low-priority requests', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { lowSchedule: wait(1000) });
+
+      const flushed = items.get('a', { priority: 'low' });
+      await items.flush();
+      expect(await flushed).toEqual({ id: 'a' });
+
+      const aborted = items.get('b', { priority: 'low' });
+      items.abort();
+      await expect(aborted).rejects.toThrow('Aborted');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record the priority on get and schedule events', async () => {
+      const events: TraceEvent<string>[] = [];
+
+      const items = batch(
+        async (keys: string[]) => keys.map((k) => ({ id: k })),
+        'id',
+        { wait: 1000, trace: (event) => events.push(event) },
+      );
+
+      await items.get('a', { priority: 'high' });
+
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: 'get', key: 'a', priority: 'high' }),
+      );
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: 'schedule', trigger: 'priority' }),
+      );
+    });
+  });
+
+  describe('deadline', () => {
+    it('should dispatch before the deadline instead of waiting', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { wait: 1000 });
+
+      const startedAt = Date.now();
+      await items.get('a', { deadline: startedAt + 20 });
+
+      expect(Date.now() - startedAt).toBeLessThan(500);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dispatch right away once the deadline is due', async () => {
+      const events: TraceEvent<string>[] = [];
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        wait: 1000,
+        trace: (event) => events.push(event),
+      });
+
+      const queued = items.get('a');
+      items.get('b', { deadline: Date.now() });
+
+      expect(fn).toHaveBeenCalledWith(
+        ['a', 'b'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+      await queued;
+      expect(events).toContainEqual(
+        expect.objectContaining({ type: 'schedule', trigger: 'deadline' }),
+      );
+    });
+
+    it('should leave room for the expected batch duration', async () => {
+      const calledAt: number[] = [];
+      const fn = mock(async (keys: string[]) => {
+        calledAt.push(Date.now());
+        await new Promise((r) => setTimeout(r, 40));
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', { wait: 1000 });
+      await items.get('a', { deadline: Date.now() });
+
+      // Only the learned ~40ms are left, so this goes out immediately.
+      const startedAt = Date.now();
+      await items.get('b', { deadline: startedAt + 30 });
+
+      expect(calledAt[1] - startedAt).toBeLessThan(20);
+    });
+
+    it('should keep the normal scheduler for gets without a deadline', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { wait: 30 });
+
+      const promise = items.get('a');
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(fn).not.toHaveBeenCalled();
+      await promise;
+    });
+
+    it('should not fire for a queue that was already dispatched', async () => {
+      const events: TraceEvent<string>[] = [];
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { trace: (event) => events.push(event) });
+
+      await items.get('a', { deadline: Date.now() + 20 });
+      await new Promise((r) => setTimeout(r, 30));
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(events.filter((e) => e.type === 'schedule')).toHaveLength(1);
+    });
+
+    it('should not arm a deadline after a synchronous dispatch', async () => {
+      const events: TraceEvent<string>[] = [];
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: any(wait(1000), size(1)),
+        trace: (event) => events.push(event),
+      });
+
+      await items.get('a', { deadline: Date.now() + 20 });
+      await new Promise((r) => setTimeout(r, 30));
 
-      expect(results).toEqual([{ name: 'User alice' }, { name: 'User bob' }]);
-      expect(fn).toHaveBeenCalledTimes(1);
+      const schedules = events.flatMap((e) =>
+        e.type === 'schedule' ? [`${e.trigger}:${e.size}`] : [],
+      );
+      expect(schedules).toEqual(['scheduler:1']);
     });
   });
 
-  describe('custom match function', () => {
-    it('should use custom match function', async () => {
-      type Post = { authorId: number; title: string };
+  describe('group', () => {
+    type Key = { tenant: string; id: number };
+    const byTenant = (key: Key) => key.tenant;
 
-      const fn = mock(async (authorIds: number[]): Promise<Post[]> => {
-        return authorIds.map((id) => ({
-          authorId: id,
-          title: `Post by ${id}`,
-        }));
-      });
+    it('should call fn once per group with its label', async () => {
+      const fn = mock(async (keys: Key[]) => keys.map((k) => ({ ...k })));
 
-      const posts = batch(fn, (results, authorId: number) =>
-        results.find((p) => p.authorId === authorId),
-      );
+      const items = batch(fn, ['tenant', 'id'], { group: byTenant });
 
-      const [post1, post2] = await Promise.all([posts.get(1), posts.get(2)]);
+      await Promise.all([
+        items.get({ tenant: 'a', id: 1 }),
+        items.get({ tenant: 'b', id: 1 }),
+        items.get({ tenant: 'a', id: 2 }),
+      ]);
 
-      expect(post1).toEqual({ authorId: 1, title: 'Post by 1' });
-      expect(post2).toEqual({ authorId: 2, title: 'Post by 2' });
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenCalledWith(
+        [
+          { tenant: 'a', id: 1 },
+          { tenant: 'a', id: 2 },
+        ],
+        expect.any(AbortSignal),
+        expect.objectContaining({ group: 'a' }),
+      );
+      expect(fn).toHaveBeenCalledWith(
+        [{ tenant: 'b', id: 1 }],
+        expect.any(AbortSignal),
+        expect.objectContaining({ group: 'b' }),
+      );
     });
-  });
 
-  describe('max batch size', () => {
-    it('should split large batches into chunks', async () => {
-      const fn = mock(async (keys: number[]) => {
-        return keys.map((k) => ({ id: k, value: k * 10 }));
-      });
+    it('should apply max to each group separately', async () => {
+      const fn = mock(async (keys: Key[]) => keys.map((k) => ({ ...k })));
 
-      const items = batch(fn, 'id', { max: 2 });
+      const items = batch(fn, ['tenant', 'id'], {
+        group: byTenant,
+        max: 2,
+      });
 
-      const results = await Promise.all([
-        items.get(1),
-        items.get(2),
-        items.get(3),
-        items.get(4),
-        items.get(5),
+      await Promise.all([
+        items.get({ tenant: 'a', id: 1 }),
+        items.get({ tenant: 'b', id: 1 }),
+        items.get({ tenant: 'a', id: 2 }),
+        items.get({ tenant: 'a', id: 3 }),
       ]);
 
-      expect(results).toEqual([
-        { id: 1, value: 10 },
-        { id: 2, value: 20 },
-        { id: 3, value: 30 },
-        { id: 4, value: 40 },
-        { id: 5, value: 50 },
-      ]);
-      // Should be called 3 times: [1,2], [3,4], [5]
-      expect(fn).toHaveBeenCalledTimes(3);
+      const sizes = fn.mock.calls.map(([keys]) => keys.length);
+      expect(sizes.sort()).toEqual([1, 1, 2]);
     });
-  });
 
-  describe('error handling', () => {
-    it('should reject all requests when batch function throws', async () => {
-      const items = batch(async () => {
-        throw new Error('Database error');
-      }, 'id');
+    it('should flush every group', async () => {
+      const fn = mock(async (keys: Key[]) => keys.map((k) => ({ ...k })));
 
-      const results = await Promise.allSettled([
-        items.get('a'),
-        items.get('b'),
-      ]);
+      const items = batch(fn, ['tenant', 'id'], {
+        group: byTenant,
+        wait: 1000,
+      });
 
-      expect(results[0].status).toBe('rejected');
-      expect(results[1].status).toBe('rejected');
-      expect((results[0] as PromiseRejectedResult).reason.message).toBe(
-        'Database error',
-      );
+      const a = items.get({ tenant: 'a', id: 1 });
+      const b = items.get({ tenant: 'b', id: 1 });
+      await items.flush();
+
+      expect(await Promise.all([a, b])).toEqual([
+        { tenant: 'a', id: 1 },
+        { tenant: 'b', id: 1 },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(2);
     });
 
-    it('should reject with BatchError when key not found in results', async () => {
-      const items = batch(async (keys: string[]) => {
-        // Only return some results
-        return keys.slice(0, 1).map((k) => ({ id: k }));
-      }, 'id');
+    it('should label schedule and dispatch events with their group', async () => {
+      const events: TraceEvent<Key>[] = [];
 
-      const results = await Promise.allSettled([
-        items.get('a'),
-        items.get('b'),
+      const items = batch(
+        async (keys: Key[]) => keys.map((k) => ({ ...k })),
+        ['tenant', 'id'],
+        { group: byTenant, trace: (event) => events.push(event) },
+      );
+
+      await Promise.all([
+        items.get({ tenant: 'a', id: 1 }),
+        items.get({ tenant: 'b', id: 1 }),
       ]);
 
-      expect(results[0].status).toBe('fulfilled');
-      expect(results[1].status).toBe('rejected');
-      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
-        BatchError,
+      const labels = events.flatMap((e) =>
+        e.type === 'schedule' || e.type === 'dispatch'
+          ? [`${e.type}:${e.batchId}:${e.group}`]
+          : [],
       );
+      expect(labels).toEqual([
+        'schedule:batch-1:a',
+        'schedule:batch-2:b',
+        'dispatch:batch-1:a',
+        'dispatch:batch-2:b',
+      ]);
     });
   });
 
-  describe('flush', () => {
-    it('should dispatch pending batch immediately', async () => {
-      const fn = mock(async (keys: string[]) => {
-        return keys.map((k) => ({ id: k }));
-      });
+  describe('meta', () => {
+    it('should pass each caller meta aligned with the keys', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
 
-      const items = batch(fn, 'id', { wait: 1000 }); // Long wait
+      const items = batch(fn, 'id');
 
-      const promises = [items.get('a'), items.get('b')];
+      await Promise.all([
+        items.get(1, { meta: 'a' }),
+        items.get(2),
+        items.get(1, { meta: 'b' }),
+      ]);
 
-      // Not called yet due to wait
-      expect(fn).not.toHaveBeenCalled();
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.objectContaining({ metas: [['a', 'b'], []] }),
+      );
+    });
 
-      // Flush immediately
-      await items.flush();
+    it('should pass the signal, batch ID and attempt', async () => {
+      let calls = 0;
+      const contexts: BatchContext[] = [];
+      const fn = mock(
+        async (keys: number[], _signal: AbortSignal, context: BatchContext) => {
+          contexts.push(context);
+          if (++calls === 1) throw new Error('503');
+          return keys.map((k) => ({ id: k }));
+        },
+      );
 
-      const results = await Promise.all(promises);
-      expect(results).toEqual([{ id: 'a' }, { id: 'b' }]);
-      expect(fn).toHaveBeenCalledTimes(1);
+      const items = batch(fn, 'id', { name: 'items', retry: { delay: 1 } });
+      await items.get(1);
+
+      expect(contexts.map((c) => [c.batchId, c.attempt])).toEqual([
+        ['items-1', 1],
+        ['items-1', 2],
+      ]);
+      expect(contexts[0].signal).toBe(fn.mock.calls[0][1]);
     });
 
-    it('should do nothing when called with empty queue', async () => {
-      const fn = mock(async (keys: string[]) => {
-        return keys.map((k) => ({ id: k }));
+    it('should split batches by meta with group', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        group: (_key, meta) => (meta as { locale: string }).locale,
       });
 
-      const items = batch(fn, 'id');
+      await Promise.all([
+        items.get(1, { meta: { locale: 'en' } }),
+        items.get(2, { meta: { locale: 'de' } }),
+        items.get(3, { meta: { locale: 'en' } }),
+      ]);
 
-      await items.flush();
-      expect(fn).not.toHaveBeenCalled();
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn.mock.calls.map(([keys]) => keys)).toEqual([[1, 3], [2]]);
     });
-  });
 
-  describe('abort', () => {
-    it('should reject pending requests when abort is called', async () => {
-      const fn = mock(async (keys: string[]) => {
-        await new Promise((r) => setTimeout(r, 100));
+    it('should not join an in-flight batch of another group', async () => {
+      const fn = mock(async (keys: number[]) => {
+        await new Promise((r) => setTimeout(r, 10));
         return keys.map((k) => ({ id: k }));
       });
 
-      const items = batch(fn, 'id', { wait: 1000 });
-
-      const promise = items.get('a');
+      const items = batch(fn, 'id', { group: (_key, meta) => String(meta) });
 
-      items.abort();
+      const en = items.get(1, { meta: 'en' });
+      await new Promise((r) => setTimeout(r, 1));
+      const de = items.get(1, { meta: 'de' });
+      await Promise.all([en, de]);
 
-      const result = await promise.catch((e) => e);
-      expect(result).toBeInstanceOf(DOMException);
-      expect(result.name).toBe('AbortError');
+      expect(fn).toHaveBeenCalledTimes(2);
     });
 
-    it('should support per-request abort signal', async () => {
-      const fn = mock(async (keys: string[]) => {
-        await new Promise((r) => setTimeout(r, 50));
-        return keys.map((k) => ({ id: k }));
+    it('should cache results per group', async () => {
+      const fn = mock(
+        async (keys: number[], _signal: AbortSignal, context: BatchContext) =>
+          keys.map((k) => ({ id: k, tenant: context.group })),
+      );
+
+      const items = batch(fn, 'id', {
+        cache: true,
+        group: (_key, meta) => (meta as { tenant: string }).tenant,
       });
 
-      const items = batch(fn, 'id');
+      const a = await items.get(1, { meta: { tenant: 'a' } });
+      const b = await items.get(1, { meta: { tenant: 'b' } });
+      await items.get(1, { meta: { tenant: 'a' } });
 
-      const controller = new AbortController();
-      const promise = items.get('a', { signal: controller.signal });
+      expect(a).toEqual({ id: 1, tenant: 'a' });
+      expect(b).toEqual({ id: 1, tenant: 'b' });
+      expect(fn).toHaveBeenCalledTimes(2);
 
-      controller.abort();
+      items.clear(1, { tenant: 'a' });
+      items.prime(2, { id: 2, tenant: 'b' }, { tenant: 'b' });
+      await items.get(1, { meta: { tenant: 'a' } });
+      await items.get(2, { meta: { tenant: 'b' } });
 
-      const result = await promise.catch((e) => e);
-      expect(result).toBeInstanceOf(DOMException);
-      expect(result.name).toBe('AbortError');
+      expect(fn).toHaveBeenCalledTimes(3);
     });
 
-    it('should reject immediately if signal is already aborted', async () => {
-      const items = batch(
-        async (keys: string[]) => keys.map((k) => ({ id: k })),
-        'id',
-      );
+    it('should cache bigint keys per group', async () => {
+      const fn = mock(async (keys: bigint[]) => keys.map((k) => ({ id: k })));
 
-      const controller = new AbortController();
-      controller.abort();
+      const items = batch(fn, 'id', { cache: true, group: () => 'x' });
 
-      const result = await items
-        .get('a', { signal: controller.signal })
-        .catch((e) => e);
-      expect(result).toBeInstanceOf(DOMException);
-      expect(result.name).toBe('AbortError');
+      expect(await items.get(1n)).toEqual({ id: 1n });
+      expect(await items.get(1n)).toEqual({ id: 1n });
+      expect(fn).toHaveBeenCalledTimes(1);
     });
 
-    it('should handle abort triggered by user callback before listener registration', async () => {
-      const controller = new AbortController();
+    it('should cache object keys by identity per group', async () => {
+      type Key = { id: number };
+      const fn = mock(async (keys: Key[]) => keys.map((k) => ({ key: k })));
 
       const items = batch(
-        async (keys: string[]) => keys.map((k) => ({ id: k })),
-        'id',
+        fn,
+        keyed((row: { key: Key }) => row.key),
         {
-          trace: () => {
-            // User's trace handler aborts synchronously during get()
-            // This happens after the initial aborted check but before
-            // the abort listener is registered.
-            controller.abort();
-          },
+          cache: true,
+          group: () => 'x',
         },
       );
 
-      const result = await items
-        .get('a', { signal: controller.signal })
-        .catch((e) => e);
+      const one = { id: 1 };
+      await items.get(one);
+      await items.get(one);
+      await items.get({ id: 1 });
 
-      expect(result).toBeInstanceOf(DOMException);
-      expect(result.name).toBe('AbortError');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a custom cache store combined with group', () => {
+      const store = new Map();
+      expect(() =>
+        batch(async (keys: number[]) => keys.map((id) => ({ id })), 'id', {
+          cache: {
+            store: {
+              get: (key) => store.get(key),
+              set: (key, entry) => store.set(key, entry),
+              delete: (key) => store.delete(key),
+              clear: () => store.clear(),
+            },
+          },
+          group: () => 'x',
+        }),
+      ).toThrow(BatchError);
     });
   });
 
@@ -401,11 +1720,17 @@ describe('batch', () => {
       expect(result1).toEqual({ id: 'first' });
       expect(result2).toEqual({ id: 'second' });
       expect(fn).toHaveBeenCalledTimes(2);
-      expect(fn).toHaveBeenNthCalledWith(1, ['first'], expect.any(AbortSignal));
+      expect(fn).toHaveBeenNthCalledWith(
+        1,
+        ['first'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
       expect(fn).toHaveBeenNthCalledWith(
         2,
         ['second'],
         expect.any(AbortSignal),
+        expect.anything(),
       );
     });
   });
@@ -891,6 +2216,132 @@ describe('batch', () => {
     });
   });
 
+  describe('in-flight coalescing', () => {
+    function gatedFetch() {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        release = () => resolve();
+      });
+      const signals: AbortSignal[] = [];
+      const fn = mock(async (keys: string[], signal: AbortSignal) => {
+        signals.push(signal);
+        await gate;
+        return keys.map((k) => ({ id: k }));
+      });
+      return { fn, release, signals };
+    }
+
+    it('should join a batch that is already loading the key', async () => {
+      const { fn, release } = gatedFetch();
+      const events: TraceEvent<string>[] = [];
+
+      const items = batch(fn, 'id', {
+        name: 'items',
+        trace: (event) => events.push(event),
+      });
+
+      const first = items.get('a');
+      await Promise.resolve(); // allow dispatch
+
+      const second = items.get('a');
+      release();
+
+      expect(await Promise.all([first, second])).toEqual([
+        { id: 'a' },
+        { id: 'a' },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'dedup',
+          key: 'a',
+          batchId: 'items-1',
+        }),
+      );
+    });
+
+    it('should fetch again once the in-flight batch has settled', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id');
+
+      await items.get('a');
+      await items.get('a');
+
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not abort the batch when only the late joiner aborts', async () => {
+      const { fn, release, signals } = gatedFetch();
+
+      const items = batch(fn, 'id');
+
+      const first = items.get('a');
+      await Promise.resolve();
+
+      const controller = new AbortController();
+      const second = items.get('a', { signal: controller.signal });
+      controller.abort();
+      release();
+
+      const [firstResult, secondResult] = await Promise.allSettled([
+        first,
+        second,
+      ]);
+
+      expect(firstResult.status).toBe('fulfilled');
+      expect(secondResult.status).toBe('rejected');
+      expect((secondResult as PromiseRejectedResult).reason.name).toBe(
+        'AbortError',
+      );
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it('should keep the batch running while a late joiner still needs it', async () => {
+      const { fn, release, signals } = gatedFetch();
+
+      const items = batch(fn, 'id');
+
+      const controller = new AbortController();
+      const first = items.get('a', { signal: controller.signal });
+      await Promise.resolve();
+
+      const second = items.get('a');
+      controller.abort();
+      release();
+
+      const [firstResult, secondResult] = await Promise.allSettled([
+        first,
+        second,
+      ]);
+
+      expect(firstResult.status).toBe('rejected');
+      expect(secondResult).toEqual({ status: 'fulfilled', value: { id: 'a' } });
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it('should abort the batch once every caller including joiners aborts', async () => {
+      const { fn, release, signals } = gatedFetch();
+
+      const items = batch(fn, 'id');
+
+      const controller1 = new AbortController();
+      const controller2 = new AbortController();
+      const first = items.get('a', { signal: controller1.signal });
+      await Promise.resolve();
+
+      const second = items.get('a', { signal: controller2.signal });
+      controller1.abort();
+      expect(signals[0].aborted).toBe(false);
+
+      controller2.abort();
+      expect(signals[0].aborted).toBe(true);
+
+      release();
+      await Promise.allSettled([first, second]);
+    });
+  });
+
   describe('concurrent batches', () => {
     it('should handle new requests while batch is in-flight', async () => {
       const fn = mock(async (keys: string[]) => {
@@ -0,0 +1,215 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  batch,
+  type CacheEntry,
+  type CacheStore,
+  type TraceEvent,
+} from '../src';
+
+describe('cache', () => {
+  it('should serve repeated keys from the cache across batches', async () => {
+    const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+    const items = batch(fn, 'id', { cache: true });
+
+    const first = await items.get('a');
+    const second = await items.get('a');
+
+    expect(first).toEqual({ id: 'a' });
+    expect(second).toBe(first);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fetch keys that are not cached', async () => {
+    const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+    const items = batch(fn, 'id', { cache: true });
+
+    await items.get('a');
+    await items.get(['a', 'b']);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenNthCalledWith(
+      2,
+      ['b'],
+      expect.any(AbortSignal),
+      expect.anything(),
+    );
+  });
+
+  it('should refetch entries after the ttl expires', async () => {
+    const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+    const items = batch(fn, 'id', { cache: { ttl: 10 } });
+
+    await items.get('a');
+    await items.get('a');
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await new Promise((r) => setTimeout(r, 20));
+
+    await items.get('a');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry beyond max', async () => {
+    const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+    const items = batch(fn, 'id', { cache: { max: 2 } });
+
+    await items.get(['a', 'b']);
+    await items.get('a'); // touch a so b becomes least recently used
+    await items.get('c');
+
+    fn.mockClear();
+
+    await items.get(['a', 'c']);
+    expect(fn).not.toHaveBeenCalled();
+
+    await items.get('b');
+    expect(fn).toHaveBeenCalledWith(
+      ['b'],
+      expect.any(AbortSignal),
+      expect.anything(),
+    );
+  });
+
+  it('should not cache errors or missing results', async () => {
+    let calls = 0;
+    const fn = mock(async (keys: string[]) => {
+      calls++;
+      if (calls === 1) throw new Error('boom');
+      return calls === 2 ? [] : keys.map((k) => ({ id: k }));
+    });
+
+    const items = batch(fn, 'id', { cache: true });
+
+    await expect(items.get('a')).rejects.toThrow('boom');
+    await expect(items.get('a')).rejects.toThrow('No result for key: a');
+    await expect(items.get('a')).resolves.toEqual({ id: 'a' });
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should use the key function for cache keys', async () => {
+    const fn = mock(async (keys: { id: number }[]) =>
+      keys.map((k) => ({ ...k, fetched: true })),
+    );
+
+    const items = batch(
+      fn,
+      (results, key: { id: number }) => results.find((r) => r.id === key.id),
+      { key: (k) => k.id, cache: true },
+    );
+
+    await items.get({ id: 1 });
+    await items.get({ id: 1 });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('prime and clear', () => {
+    it('should resolve primed values without fetching', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { cache: true });
+      const primed = { id: 'a' };
+
+      items.prime('a', primed);
+
+      expect(await items.get('a')).toBe(primed);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should refetch a key after clear', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { cache: true });
+
+      await items.get(['a', 'b']);
+      items.clear('a');
+      await items.get(['a', 'b']);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenNthCalledWith(
+        2,
+        ['a'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should refetch every key after clearAll', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', { cache: true });
+
+      await items.get(['a', 'b']);
+      items.clearAll();
+      await items.get(['a', 'b']);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenNthCalledWith(
+        2,
+        ['a', 'b'],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should be no-ops without a cache', async () => {
+      const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id');
+
+      items.prime('a', { id: 'primed' });
+      items.clear('a');
+      items.clearAll();
+
+      expect(await items.get('a')).toEqual({ id: 'a' });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should read and write through a custom store', async () => {
+    const entries = new Map<unknown, CacheEntry>();
+    const store: CacheStore = {
+      get: mock((key: unknown) => entries.get(key)),
+      set: mock((key: unknown, entry: CacheEntry) => {
+        entries.set(key, entry);
+      }),
+      delete: mock((key: unknown) => {
+        entries.delete(key);
+      }),
+      clear: mock(() => entries.clear()),
+    };
+
+    const fn = mock(async (keys: string[]) => keys.map((k) => ({ id: k })));
+    const items = batch(fn, 'id', { cache: { store } });
+
+    await items.get('a');
+    await items.get('a');
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(store.set).toHaveBeenCalledTimes(1);
+    expect(entries.get('a')?.value).toEqual({ id: 'a' });
+  });
+
+  it('should emit cache-hit and cache-miss trace events', async () => {
+    const events: TraceEvent<string>[] = [];
+
+    const items = batch(
+      async (keys: string[]) => keys.map((k) => ({ id: k })),
+      'id',
+      { cache: true, trace: (event) => events.push(event) },
+    );
+
+    await items.get('a');
+    await items.get('a');
+
+    const cacheEvents = events
+      .filter((e) => e.type === 'cache-hit' || e.type === 'cache-miss')
+      .map((e) => e.type);
+
+    expect(cacheEvents).toEqual(['cache-miss', 'cache-hit']);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { BatchError, batch, CircuitOpenError, type TraceEvent } from '../src';
+
+function toggling() {
+  let down = true;
+  const fn = mock(async (keys: number[]) => {
+    if (down) throw new Error('503');
+    return keys.map((k) => ({ id: k }));
+  });
+  return {
+    fn,
+    recover: () => {
+      down = false;
+    },
+  };
+}
+
+async function failTimes(items: { get(key: number): Promise<unknown> }, n = 2) {
+  for (let i = 0; i < n; i++) {
+    await items.get(i).catch(() => {});
+  }
+}
+
+describe('circuit breaker', () => {
+  it('should stay closed without the option', async () => {
+    const { fn } = toggling();
+
+    const items = batch(fn, 'id');
+    await failTimes(items, 5);
+
+    expect(items.state).toBe('closed');
+    expect(fn).toHaveBeenCalledTimes(5);
+  });
+
+  it('should open once the error rate reaches the threshold', async () => {
+    const { fn } = toggling();
+
+    const items = batch(fn, 'id', {
+      circuit: { window: 4, minChunks: 2, threshold: 0.5 },
+    });
+
+    await failTimes(items, 1);
+    expect(items.state).toBe('closed');
+
+    await failTimes(items, 1);
+    expect(items.state).toBe('open');
+  });
+
+  it('should fail fast without calling fn while open', async () => {
+    const { fn } = toggling();
+
+    const items = batch(fn, 'id', { circuit: { minChunks: 2 } });
+    await failTimes(items);
+    fn.mockClear();
+
+    const error = await items.get(1).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toBeInstanceOf(BatchError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should close again after a successful trial chunk', async () => {
+    const { fn, recover } = toggling();
+
+    const items = batch(fn, 'id', {
+      circuit: { minChunks: 2, resetTimeout: 10 },
+    });
+    await failTimes(items);
+    expect(items.state).toBe('open');
+
+    await new Promise((r) => setTimeout(r, 15));
+    expect(items.state).toBe('half-open');
+
+    recover();
+    expect(await items.get(1)).toEqual({ id: 1 });
+    expect(items.state).toBe('closed');
+  });
+
+  it('should reopen when the trial chunk fails', async () => {
+    const { fn } = toggling();
+
+    const items = batch(fn, 'id', {
+      circuit: { minChunks: 2, resetTimeout: 10 },
+    });
+    await failTimes(items);
+
+    await new Promise((r) => setTimeout(r, 15));
+    await expect(items.get(1)).rejects.toThrow('503');
+
+    expect(items.state).toBe('open');
+  });
+
+  it('should let only one trial chunk through while half-open', async () => {
+    let down = true;
+    const fn = mock(async (keys: number[]) => {
+      if (down) throw new Error('503');
+      await new Promise((r) => setTimeout(r, 10));
+      return keys.map((k) => ({ id: k }));
+    });
+
+    const items = batch(fn, 'id', {
+      max: 1,
+      concurrency: 2,
+      circuit: { minChunks: 2, resetTimeout: 10 },
+    });
+    await failTimes(items);
+    await new Promise((r) => setTimeout(r, 15));
+
+    down = false;
+    fn.mockClear();
+    const [trial, rejected] = await Promise.allSettled([
+      items.get(1),
+      items.get(2),
+    ]);
+
+    expect(trial.status).toBe('fulfilled');
+    expect(rejected).toEqual({
+      status: 'rejected',
+      reason: expect.any(CircuitOpenError),
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count per-key errors or aborts as failures', async () => {
+    const fn = mock(
+      async (
+        keys: number[],
+        signal: AbortSignal,
+      ): Promise<({ id: number } | Error)[]> => {
+        await new Promise((r) => setTimeout(r, 5));
+        signal.throwIfAborted();
+        return keys.map((k) =>
+          Object.assign(new Error('not found'), { id: k }),
+        );
+      },
+    );
+
+    const items = batch(fn, 'id', { circuit: { minChunks: 1 } });
+
+    await items.get(1).catch(() => {});
+
+    const controller = new AbortController();
+    const aborted = items.get(2, { signal: controller.signal });
+    await new Promise((r) => setTimeout(r, 1));
+    controller.abort();
+    await aborted.catch(() => {});
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(items.state).toBe('closed');
+  });
+
+  it('should emit circuit trace events on each transition', async () => {
+    const events: TraceEvent<number>[] = [];
+    const { fn, recover } = toggling();
+
+    const items = batch(fn, 'id', {
+      circuit: { minChunks: 2, resetTimeout: 10 },
+      trace: (event) => events.push(event),
+    });
+    await failTimes(items);
+    await new Promise((r) => setTimeout(r, 15));
+    recover();
+    await items.get(1);
+
+    const transitions = events.flatMap((e) =>
+      e.type === 'circuit' ? [`${e.previous}->${e.state}`] : [],
+    );
+    expect(transitions).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+  });
+});
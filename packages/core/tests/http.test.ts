@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from 'bun:test';
+import { batch, indexed } from '../src';
+import { createBatchHandler, HttpError, httpBatchFn } from '../src/http';
+
+type User = { id: string; name: string };
+
+const resolver = mock(async (keys: string[]) =>
+  Object.fromEntries(
+    keys
+      .filter((id) => id !== 'missing')
+      .map((id) => [id, { id, name: `user ${id}` }]),
+  ),
+);
+
+let server: ReturnType<typeof Bun.serve>;
+let url: string;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: createBatchHandler<User>(resolver, { max: 3 }),
+  });
+  url = `http://localhost:${server.port}/users`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('http', () => {
+  it('should fetch a batch with GET end to end', async () => {
+    resolver.mockClear();
+    const users = batch(httpBatchFn<string, User>({ url }), indexed);
+
+    const [a, b] = await Promise.all([users.get('1'), users.get('2')]);
+
+    expect(a).toEqual({ id: '1', name: 'user 1' });
+    expect(b).toEqual({ id: '2', name: 'user 2' });
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(resolver).toHaveBeenCalledWith(['1', '2'], expect.any(Request));
+  });
+
+  it('should keep keys containing commas intact with GET', async () => {
+    resolver.mockClear();
+    const users = batch(httpBatchFn<string, User>({ url }), indexed);
+
+    const [doe, smith] = await Promise.all([
+      users.get('Doe, Jane'),
+      users.get('Smith'),
+    ]);
+
+    expect(doe).toEqual({ id: 'Doe, Jane', name: 'user Doe, Jane' });
+    expect(smith).toEqual({ id: 'Smith', name: 'user Smith' });
+    expect(resolver).toHaveBeenCalledWith(
+      ['Doe, Jane', 'Smith'],
+      expect.any(Request),
+    );
+  });
+
+  it('should fetch a batch with POST end to end', async () => {
+    const users = batch(
+      httpBatchFn<number, User>({ url, method: 'POST' }),
+      indexed,
+    );
+
+    expect(await users.get([1, 2])).toEqual([
+      { id: '1', name: 'user 1' },
+      { id: '2', name: 'user 2' },
+    ]);
+  });
+
+  it('should reject only the keys left out of the response', async () => {
+    const users = batch(httpBatchFn<string, User>({ url }), indexed);
+
+    const [found, missing] = await Promise.allSettled([
+      users.get('1'),
+      users.get('missing'),
+    ]);
+
+    expect(found.status).toBe('fulfilled');
+    expect(missing.status).toBe('rejected');
+  });
+
+  it('should reject batches over max with a 413', async () => {
+    const users = batch(httpBatchFn<string, User>({ url }), indexed);
+
+    const error = await users.get(['1', '2', '3', '4']).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(413);
+  });
+
+  it('should let the batcher split batches to stay under max', async () => {
+    const users = batch(httpBatchFn<string, User>({ url }), indexed, {
+      max: 3,
+    });
+
+    const results = await users.get(['1', '2', '3', '4']);
+
+    expect(results).toHaveLength(4);
+  });
+
+  it('should respond with a 400 for a request without keys', async () => {
+    const response = await fetch(url);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should respond with a generic 500 when the resolver throws', async () => {
+    const handler = createBatchHandler(async () => {
+      throw new Error('db down');
+    });
+
+    const response = await handler(new Request(`${url}?keys=1`));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal error' });
+  });
+
+  it('should pass resolver errors to onError', async () => {
+    const onError = mock((error: Error) =>
+      error.message === 'busy'
+        ? new Response('try later', { status: 503 })
+        : undefined,
+    );
+    const handler = createBatchHandler(
+      async (keys) => {
+        throw new Error(keys[0] === '1' ? 'busy' : 'db down');
+      },
+      { onError },
+    );
+
+    const busy = await handler(new Request(`${url}?keys=1`));
+    const down = await handler(new Request(`${url}?keys=2`));
+
+    expect(busy.status).toBe(503);
+    expect(down.status).toBe(500);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'db down' }),
+      expect.any(Request),
+    );
+  });
+
+  it('should treat the method case-insensitively', async () => {
+    const fetchFn = mock(
+      async (_input: string | URL, _init: RequestInit) =>
+        new Response(JSON.stringify({ a: 1 })),
+    );
+    const controller = new AbortController();
+
+    const fn = httpBatchFn<string, number>({
+      url,
+      method: 'get',
+      fetch: fetchFn,
+    });
+    await fn(['a'], controller.signal, {
+      signal: controller.signal,
+      batchId: 'batch-1',
+      metas: [[]],
+      attempt: 1,
+      link: () => {},
+    });
+
+    const [input, init] = fetchFn.mock.calls[0];
+    expect(new URL(input).searchParams.getAll('keys')).toEqual(['a']);
+    expect(init.method).toBe('GET');
+    expect(init.body).toBeUndefined();
+  });
+
+  it('should use custom key encoding and pass the signal to fetch', async () => {
+    const fetchFn = mock(
+      async (_input: string | URL, _init: RequestInit) =>
+        new Response(JSON.stringify({ a: 1 })),
+    );
+    const controller = new AbortController();
+
+    const fn = httpBatchFn<string, number>({
+      url,
+      encodeKeys: (keys) => keys.join('|'),
+      fetch: fetchFn,
+    });
+    await fn(['a', 'b'], controller.signal, {
+      signal: controller.signal,
+      batchId: 'batch-1',
+      metas: [[], []],
+      attempt: 1,
+      link: () => {},
+    });
+
+    const [input, init] = fetchFn.mock.calls[0];
+    expect(new URL(input).searchParams.get('keys')).toBe('a|b');
+    expect(init.signal).toBe(controller.signal);
+  });
+});
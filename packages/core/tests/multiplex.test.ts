@@ -0,0 +1,154 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  BatchError,
+  batch,
+  indexed,
+  multiplex,
+  type TraceEvent,
+  type Transport,
+} from '../src';
+
+type Row = { id: number };
+
+function echo() {
+  return mock<Transport>(async (requests) =>
+    Object.fromEntries(
+      Object.entries(requests).map(([channel, keys]) => [
+        channel,
+        (keys as number[]).map((id) => ({ id })),
+      ]),
+    ),
+  );
+}
+
+describe('multiplex', () => {
+  it('should send batches from several batchers in one transport call', async () => {
+    const transport = echo();
+    const mux = multiplex(transport);
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+    const posts = batch(mux.channel<number, Row>('posts'), 'id');
+
+    const [user, post] = await Promise.all([
+      users.get(1),
+      posts.get(2),
+      users.get(3),
+    ]);
+
+    expect(user).toEqual({ id: 1 });
+    expect(post).toEqual({ id: 2 });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport).toHaveBeenCalledWith(
+      { users: [1, 3], posts: [2] },
+      expect.any(AbortSignal),
+      { transportId: 'transport-1' },
+    );
+  });
+
+  it("should match each channel with its batcher's own logic", async () => {
+    const mux = multiplex(async (requests) => ({
+      users: (requests.users as number[]).map((id) => ({ id })),
+      flags: Object.fromEntries(
+        (requests.flags as string[]).map((name) => [name, name === 'on']),
+      ),
+    }));
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+    const flags = batch(mux.channel<string, boolean>('flags'), indexed);
+
+    expect(
+      await Promise.all([users.get(1), flags.get('on'), flags.get('off')]),
+    ).toEqual([{ id: 1 }, true, false]);
+  });
+
+  it('should collect batches for the wait window', async () => {
+    const transport = echo();
+    const mux = multiplex(transport, { wait: 20 });
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+    const posts = batch(mux.channel<number, Row>('posts'), 'id');
+
+    const user = users.get(1);
+    await new Promise((r) => setTimeout(r, 5));
+    await Promise.all([user, posts.get(2)]);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send a second batch from the same channel separately', async () => {
+    const transport = echo();
+    const mux = multiplex(transport, { wait: 20 });
+
+    const users = batch(mux.channel<number, Row>('users'), 'id', { max: 1 });
+
+    await Promise.all([users.get(1), users.get(2)]);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every channel when the transport fails', async () => {
+    const mux = multiplex(async () => {
+      throw new Error('502');
+    });
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+    const posts = batch(mux.channel<number, Row>('posts'), 'id');
+
+    const results = await Promise.allSettled([users.get(1), posts.get(2)]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should reject a channel missing from the response', async () => {
+    const mux = multiplex(async () => ({}));
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+
+    await expect(users.get(1)).rejects.toBeInstanceOf(BatchError);
+  });
+
+  it('should abort the transport once every channel has aborted', async () => {
+    let transportSignal: AbortSignal | undefined;
+    const mux = multiplex(async (_requests, signal) => {
+      transportSignal = signal;
+      await new Promise((r) => setTimeout(r, 20));
+      return {};
+    });
+
+    const users = batch(mux.channel<number, Row>('users'), 'id');
+    const posts = batch(mux.channel<number, Row>('posts'), 'id');
+
+    const user = users.get(1);
+    const post = posts.get(2);
+    await new Promise((r) => setTimeout(r, 1));
+
+    users.abort();
+    expect(transportSignal?.aborted).toBe(false);
+    posts.abort();
+    expect(transportSignal?.aborted).toBe(true);
+
+    await Promise.allSettled([user, post]);
+  });
+
+  it('should link each batch to the transport in traces', async () => {
+    const events: TraceEvent<number>[] = [];
+    const trace = (event: TraceEvent<number>) => events.push(event);
+    const mux = multiplex(echo(), { name: 'api' });
+
+    const users = batch(mux.channel<number, Row>('users'), 'id', {
+      name: 'users',
+      trace,
+    });
+    const posts = batch(mux.channel<number, Row>('posts'), 'id', {
+      name: 'posts',
+      trace,
+    });
+
+    await Promise.all([users.get(1), posts.get(2)]);
+
+    const links = events.flatMap((e) =>
+      e.type === 'transport' ? [`${e.batchId}->${e.transportId}`] : [],
+    );
+    expect(links).toEqual(['users-1->api-1', 'posts-1->api-1']);
+  });
+});
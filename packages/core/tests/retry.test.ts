@@ -0,0 +1,225 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { batch, type TraceEvent } from '../src';
+
+function flaky(failures: number, error = new Error('503')) {
+  let calls = 0;
+  return mock(async (keys: number[]) => {
+    calls++;
+    if (calls <= failures) throw error;
+    return keys.map((k) => ({ id: k }));
+  });
+}
+
+describe('retry', () => {
+  it('should retry a failed chunk until it succeeds', async () => {
+    const fn = flaky(2);
+
+    const items = batch(fn, 'id', { retry: { attempts: 3, delay: 1 } });
+
+    expect(await items.get([1, 2])).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject with the last error once attempts run out', async () => {
+    const fn = flaky(Number.POSITIVE_INFINITY);
+
+    const items = batch(fn, 'id', { retry: { attempts: 2, delay: 1 } });
+
+    await expect(items.get(1)).rejects.toThrow('503');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should accept a number of attempts', async () => {
+    const fn = flaky(Number.POSITIVE_INFINITY);
+
+    const items = batch(fn, 'id', { retry: 2 });
+
+    await expect(items.get(1)).rejects.toThrow('503');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry errors rejected by shouldRetry', async () => {
+    const fn = flaky(1, new Error('400'));
+    const shouldRetry = mock((error: Error) => error.message === '503');
+
+    const items = batch(fn, 'id', {
+      retry: { attempts: 3, delay: 1, shouldRetry },
+    });
+
+    await expect(items.get(1)).rejects.toThrow('400');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it('should grow the delay between attempts', async () => {
+    const events: TraceEvent<number>[] = [];
+
+    const items = batch(flaky(3), 'id', {
+      retry: { attempts: 4, delay: 2, jitter: false },
+      trace: (event) => events.push(event),
+    });
+
+    await items.get(1);
+
+    const retries = events.flatMap((e) =>
+      e.type === 'retry' ? [[e.attempt, e.delay]] : [],
+    );
+    expect(retries).toEqual([
+      [2, 2],
+      [3, 4],
+      [4, 8],
+    ]);
+  });
+
+  it('should not retry per-key errors', async () => {
+    const fn = mock(async (keys: number[]) =>
+      keys.map((k) => (k === 2 ? new Error('not found') : { id: k })),
+    );
+
+    const items = batch(fn, 'id', { retry: { attempts: 3, delay: 1 } });
+
+    const [one, two] = await Promise.allSettled([items.get(1), items.get(2)]);
+
+    expect(one).toEqual({ status: 'fulfilled', value: { id: 1 } });
+    expect(two.status).toBe('rejected');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('missing keys', () => {
+    it('should refetch only the keys without a result', async () => {
+      let calls = 0;
+      const fn = mock(async (keys: number[]) => {
+        calls++;
+        return keys.filter((k) => calls > 1 || k !== 2).map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', {
+        retry: { attempts: 2, delay: 1, retryMissing: true },
+      });
+
+      expect(await items.get([1, 2, 3])).toEqual([
+        { id: 1 },
+        { id: 2 },
+        { id: 3 },
+      ]);
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenNthCalledWith(
+        2,
+        [2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should resolve found keys without waiting for the retry', async () => {
+      let calls = 0;
+      const fn = mock(async (keys: number[]) => {
+        calls++;
+        return keys.filter((k) => calls > 1 || k !== 2).map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', {
+        retry: { attempts: 2, delay: 50, retryMissing: true },
+      });
+
+      const found = items.get(1);
+      const retried = items.get(2);
+
+      const winner = await Promise.race([
+        found.then(() => 'found'),
+        retried.then(() => 'retried'),
+      ]);
+
+      expect(winner).toBe('found');
+      await retried;
+    });
+
+    it('should reject keys still missing after the last attempt', async () => {
+      const fn = mock(async (_keys: number[]) => [] as { id: number }[]);
+
+      const items = batch(fn, 'id', {
+        retry: { attempts: 2, delay: 1, retryMissing: true },
+      });
+
+      await expect(items.get(1)).rejects.toThrow('No result for key: 1');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry missing keys by default', async () => {
+      const fn = mock(async (_keys: number[]) => [] as { id: number }[]);
+
+      const items = batch(fn, 'id', { retry: { attempts: 2, delay: 1 } });
+
+      await expect(items.get(1)).rejects.toThrow('No result for key: 1');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('abort', () => {
+    it('should stop retrying when the batcher is aborted', async () => {
+      const fn = flaky(Number.POSITIVE_INFINITY);
+
+      const items = batch(fn, 'id', { retry: { attempts: 3, delay: 50 } });
+
+      const promise = items.get(1);
+      await new Promise((r) => setTimeout(r, 10));
+      items.abort();
+
+      await expect(promise).rejects.toThrow('Aborted');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying when every caller aborts', async () => {
+      const fn = flaky(Number.POSITIVE_INFINITY);
+      const controller = new AbortController();
+
+      const items = batch(fn, 'id', { retry: { attempts: 3, delay: 50 } });
+
+      const promise = items.get(1, { signal: controller.signal });
+      await new Promise((r) => setTimeout(r, 10));
+      controller.abort();
+
+      await expect(promise).rejects.toThrow('Aborted');
+      await new Promise((r) => setTimeout(r, 60));
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry aborted fetches', async () => {
+      const fn = mock(async (_keys: number[], signal: AbortSignal) => {
+        await new Promise((r) => setTimeout(r, 20));
+        signal.throwIfAborted();
+        return [];
+      });
+
+      const items = batch(fn, 'id', { retry: { attempts: 3, delay: 1 } });
+
+      const promise = items.get(1);
+      await new Promise((r) => setTimeout(r, 5));
+      items.abort();
+
+      await expect(promise).rejects.toThrow();
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should emit a retry trace event for each attempt', async () => {
+    const events: TraceEvent<number>[] = [];
+
+    const items = batch(flaky(2), 'id', {
+      retry: { attempts: 3, delay: 1 },
+      trace: (event) => events.push(event),
+    });
+
+    await items.get([1, 2]);
+
+    const retries = events.filter(
+      (e): e is Extract<TraceEvent<number>, { type: 'retry' }> =>
+        e.type === 'retry',
+    );
+
+    expect(retries.map((e) => e.attempt)).toEqual([2, 3]);
+    expect(retries[0].keys).toEqual([1, 2]);
+    expect(retries[0].error?.message).toBe('503');
+    expect(events.filter((e) => e.type === 'dispatch')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { batch, batchScope, type TraceEvent } from '../src';
+
+function items(trace?: (event: TraceEvent<number>) => void) {
+  const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+  return { fn, items: batch(fn, 'id', { trace }) };
+}
+
+async function hops(n: number): Promise<void> {
+  for (let i = 0; i < n; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('batchScope', () => {
+  it('should batch gets separated by awaits', async () => {
+    const { fn, items: users } = items();
+
+    const results = await batchScope(() =>
+      Promise.all(
+        [1, 2, 3].map(async (id) => {
+          await hops(id * 2);
+          return users.get(id);
+        }),
+      ),
+    );
+
+    expect(results).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should split the same gets without a scope', async () => {
+    const { fn, items: users } = items();
+
+    await Promise.all(
+      [1, 2, 3].map(async (id) => {
+        await hops(id * 2);
+        return users.get(id);
+      }),
+    );
+
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should collect gets across batchers in one round', async () => {
+    const a = items();
+    const b = items();
+
+    await batchScope(async (scope) => {
+      await Promise.all([a.items.get(1), hops(3).then(() => b.items.get(2))]);
+      expect(scope.rounds).toBe(1);
+    });
+
+    expect(a.fn).toHaveBeenCalledTimes(1);
+    expect(b.fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the round open for tracked promises', async () => {
+    const { fn, items: users } = items();
+    const lookup = (id: number) =>
+      new Promise<number>((r) => setTimeout(() => r(id), id * 5));
+
+    await batchScope((scope) =>
+      Promise.all(
+        [1, 2, 3].map(async (id) => users.get(await scope.track(lookup(id)))),
+      ),
+    );
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn.mock.calls[0][0]).toEqual([1, 2, 3]);
+  });
+
+  it('should dispatch one round per dependent step', async () => {
+    const { fn, items: users } = items();
+
+    const rounds = await batchScope(async (scope) => {
+      const [a, b] = await Promise.all([users.get(1), users.get(2)]);
+      await Promise.all([users.get(a.id + 10), users.get(b.id + 10)]);
+      return scope.rounds;
+    });
+
+    expect(rounds).toBe(2);
+    expect(fn.mock.calls.map(([keys]) => keys)).toEqual([
+      [1, 2],
+      [11, 12],
+    ]);
+  });
+
+  it('should trace round dispatches', async () => {
+    const events: TraceEvent<number>[] = [];
+    const { items: users } = items((event) => events.push(event));
+
+    await batchScope(() => users.get(1));
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'schedule', trigger: 'round' }),
+    );
+  });
+
+  it('should still dispatch full batches right away', async () => {
+    const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+    const users = batch(fn, 'id', { max: 2 });
+
+    await batchScope(async () => {
+      const first = Promise.all([users.get(1), users.get(2)]);
+      await Promise.resolve();
+      expect(fn).toHaveBeenCalledTimes(1);
+      await first;
+    });
+  });
+});
@@ -1,5 +1,21 @@
 import { describe, expect, it, mock } from 'bun:test';
-import { batch, onAnimationFrame, onIdle } from '../src';
+import {
+  adaptive,
+  afterIO,
+  any,
+  batch,
+  debounce,
+  onAnimationFrame,
+  onIdle,
+  onImmediate,
+  onNextTick,
+  rateLimit,
+  type SchedulerContext,
+  size,
+  type TraceEvent,
+  throttle,
+  wait,
+} from '../src';
 
 describe('schedulers', () => {
   describe('default microtask scheduler', () => {
@@ -135,6 +151,494 @@ describe('schedulers', () => {
     });
   });
 
+  describe('event loop schedulers', () => {
+    function fetcher() {
+      return mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+    }
+
+    async function afterMicrotasks(turns: number) {
+      for (let i = 0; i < turns; i++) {
+        await Promise.resolve();
+      }
+    }
+
+    it('should batch across microtask turns with onImmediate', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: onImmediate });
+
+      const first = items.get(1);
+      await afterMicrotasks(5);
+      const second = items.get(2);
+
+      await Promise.all([first, second]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should fall back to setTimeout without setImmediate', async () => {
+      const original = globalThis.setImmediate;
+      delete (globalThis as Record<string, unknown>).setImmediate;
+
+      try {
+        const fn = fetcher();
+
+        const items = batch(fn, 'id', { schedule: onImmediate });
+
+        const first = items.get(1);
+        await afterMicrotasks(5);
+        await Promise.all([first, items.get(2)]);
+
+        expect(fn).toHaveBeenCalledWith(
+          [1, 2],
+          expect.any(AbortSignal),
+          expect.anything(),
+        );
+      } finally {
+        globalThis.setImmediate = original;
+      }
+    });
+
+    it('should batch synchronous calls with onNextTick', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: onNextTick });
+
+      await Promise.all([items.get(1), items.get(2)]);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should include keys requested by timers with afterIO', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: afterIO });
+
+      const first = items.get(1);
+      const second = new Promise((resolve) =>
+        setTimeout(() => resolve(items.get(2)), 0),
+      );
+
+      await Promise.all([first, second]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should cancel afterIO on abort', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: afterIO });
+
+      const pending = items.get(1);
+      items.abort();
+      await pending.catch(() => {});
+      await new Promise((r) => setTimeout(r, 5));
+
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rateLimit scheduler', () => {
+    function tick(ms: number) {
+      return new Promise((r) => setTimeout(r, ms));
+    }
+
+    it('should dispatch right away while tokens are available', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: rateLimit({ perSecond: 20 }),
+      });
+
+      const startedAt = performance.now();
+      await Promise.all([items.get(1), items.get(2)]);
+
+      expect(performance.now() - startedAt).toBeLessThan(25);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should hold dispatches and merge keys once the budget is spent', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: rateLimit({ perSecond: 20 }),
+      });
+
+      await items.get(1);
+
+      const held = items.get(2);
+      await tick(10);
+      const merged = items.get(3);
+      await tick(10);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await Promise.all([held, merged]);
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenLastCalledWith(
+        [2, 3],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should allow burst dispatches before limiting', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: rateLimit({ perSecond: 10, burst: 3 }),
+      });
+
+      const startedAt = performance.now();
+      await items.get(1);
+      await items.get(2);
+      await items.get(3);
+
+      expect(performance.now() - startedAt).toBeLessThan(50);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should spend a token on every call, including chunks split by max', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: rateLimit({ perSecond: 20 }),
+        max: 2,
+        concurrency: 3,
+      });
+
+      const pending = items.get([1, 2, 3, 4, 5, 6]);
+      await tick(10);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await tick(50);
+      expect(fn).toHaveBeenCalledTimes(2);
+
+      await pending;
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep the limit when combined with any', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: any(rateLimit({ perSecond: 20 }), size(1)),
+      });
+
+      await items.get(1);
+      const next = items.get(2);
+      await tick(10);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await next;
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not dispatch after abort while waiting for a token', async () => {
+      const fn = mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+
+      const items = batch(fn, 'id', {
+        schedule: rateLimit({ perSecond: 20 }),
+      });
+
+      await items.get(1);
+      const pending = items.get(2);
+      items.abort();
+
+      await expect(pending).rejects.toThrow('Aborted');
+      await tick(60);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => rateLimit({ perSecond: 0 })).toThrow();
+      expect(() => rateLimit({ perSecond: 5, burst: 0 })).toThrow();
+    });
+  });
+
+  describe('scheduler context', () => {
+    it('should expose queue size and first enqueue time', async () => {
+      const seen: { size: number; firstEnqueuedAt: number }[] = [];
+      const before = performance.now();
+
+      const items = batch(
+        async (keys: number[]) => keys.map((k) => ({ id: k })),
+        'id',
+        {
+          schedule: (dispatch, context: SchedulerContext) => {
+            const record = () =>
+              seen.push({
+                size: context.size,
+                firstEnqueuedAt: context.firstEnqueuedAt,
+              });
+            record();
+            const unsubscribe = context.onEnqueue(record);
+            const id = setTimeout(dispatch, 5);
+            return () => {
+              clearTimeout(id);
+              unsubscribe();
+            };
+          },
+        },
+      );
+
+      await items.get([1, 2, 2, 3]);
+
+      expect(seen.map((s) => s.size)).toEqual([1, 2, 2, 3]);
+      expect(seen[0].firstEnqueuedAt).toBeGreaterThanOrEqual(before);
+      expect(new Set(seen.map((s) => s.firstEnqueuedAt)).size).toBe(1);
+    });
+  });
+
+  describe('scheduler combinators', () => {
+    function tick(ms: number) {
+      return new Promise((r) => setTimeout(r, ms));
+    }
+
+    function fetcher() {
+      return mock(async (keys: number[]) => keys.map((k) => ({ id: k })));
+    }
+
+    it('should dispatch on whichever scheduler fires first with any', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: any(wait(30), size(2)) });
+
+      const full = items.get([1, 2]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await full;
+
+      const startedAt = performance.now();
+      await items.get(3);
+      expect(performance.now() - startedAt).toBeGreaterThanOrEqual(25);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dispatch once size is reached', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: size(3) });
+
+      const first = items.get([1, 2]);
+      await tick(10);
+      expect(fn).not.toHaveBeenCalled();
+
+      await Promise.all([first, items.get(3)]);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2, 3],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should restart the debounce timer on every enqueue', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', { schedule: debounce(20) });
+
+      const first = items.get(1);
+      await tick(10);
+      const second = items.get(2);
+      await tick(15);
+      expect(fn).not.toHaveBeenCalled();
+
+      await Promise.all([first, second]);
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn).toHaveBeenCalledWith(
+        [1, 2],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+    });
+
+    it('should not debounce past maxWait', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', {
+        schedule: debounce(20, { maxWait: 30 }),
+      });
+
+      const startedAt = performance.now();
+      const pending = [items.get(1)];
+      for (let k = 2; k <= 5; k++) {
+        await tick(10);
+        pending.push(items.get(k));
+      }
+      await pending[0];
+
+      expect(performance.now() - startedAt).toBeLessThan(45);
+      await Promise.all(pending);
+      expect(fn.mock.calls.length).toBeGreaterThan(1);
+    });
+
+    it('should space throttled dispatches by at least ms', async () => {
+      const fn = fetcher();
+      const calledAt: number[] = [];
+      fn.mockImplementation(async (keys: number[]) => {
+        calledAt.push(performance.now());
+        return keys.map((k) => ({ id: k }));
+      });
+
+      const items = batch(fn, 'id', { schedule: throttle(20) });
+
+      await items.get(1);
+      await Promise.all([items.get(2), items.get(3)]);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn).toHaveBeenLastCalledWith(
+        [2, 3],
+        expect.any(AbortSignal),
+        expect.anything(),
+      );
+      expect(calledAt[1] - calledAt[0]).toBeGreaterThanOrEqual(18);
+    });
+
+    it('should cancel every combined scheduler on flush', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', {
+        schedule: any(debounce(10), size(5), wait(10)),
+      });
+
+      const pending = items.get(1);
+      await items.flush();
+      await pending;
+      await tick(20);
+
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel every combined scheduler on abort', async () => {
+      const fn = fetcher();
+
+      const items = batch(fn, 'id', {
+        schedule: any(debounce(10, { maxWait: 20 }), size(5)),
+      });
+
+      const pending = items.get(1);
+      items.abort();
+      await pending.catch(() => {});
+      await tick(30);
+
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('adaptive scheduler', () => {
+    function tick(ms: number) {
+      return new Promise((r) => setTimeout(r, ms));
+    }
+
+    function slowFetch(ms: number) {
+      return mock(async (keys: number[]) => {
+        await tick(ms);
+        return keys.map((k) => ({ id: k }));
+      });
+    }
+
+    async function trickle(
+      items: { get(key: number): Promise<unknown> },
+      count: number,
+      gap: number,
+    ) {
+      const pending: Promise<unknown>[] = [];
+      for (let k = 0; k < count; k++) {
+        pending.push(items.get(k));
+        await tick(gap);
+      }
+      await Promise.all(pending);
+    }
+
+    it('should start at the min window', () => {
+      expect(adaptive().window).toBe(0);
+      expect(adaptive({ min: 5 }).window).toBe(5);
+    });
+
+    it('should widen the window while keys arrive faster than batches resolve', async () => {
+      const schedule = adaptive({ max: 30, smoothing: 0.5 });
+      const fn = slowFetch(20);
+
+      const items = batch(fn, 'id', { schedule });
+      await trickle(items, 20, 2);
+
+      expect(schedule.window).toBeGreaterThan(0);
+      expect(schedule.window).toBeLessThanOrEqual(30);
+      expect(fn.mock.calls.length).toBeLessThan(20);
+    });
+
+    it('should keep learning when wrapped in any', async () => {
+      const inner = adaptive({ max: 30, smoothing: 0.5 });
+      const schedule = any(inner, size(10));
+      const events: TraceEvent<number>[] = [];
+
+      const items = batch(slowFetch(20), 'id', {
+        schedule,
+        trace: (event) => events.push(event),
+      });
+      await trickle(items, 20, 2);
+
+      expect(inner.window).toBeGreaterThan(0);
+      expect(schedule.window).toBe(inner.window);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'schedule',
+          window: expect.any(Number),
+        }),
+      );
+    });
+
+    it('should stay within max', async () => {
+      const schedule = adaptive({ max: 5, smoothing: 1 });
+
+      const items = batch(slowFetch(40), 'id', { schedule });
+      await trickle(items, 6, 2);
+
+      expect(schedule.window).toBeGreaterThan(0);
+      expect(schedule.window).toBeLessThanOrEqual(5);
+    });
+
+    it('should shrink back to min when traffic gets sparse', async () => {
+      const schedule = adaptive({ max: 30, smoothing: 1 });
+
+      const items = batch(slowFetch(20), 'id', { schedule });
+      await trickle(items, 10, 2);
+      expect(schedule.window).toBeGreaterThan(0);
+
+      await trickle(items, 3, 40);
+      expect(schedule.window).toBe(0);
+    });
+
+    it('should record the window on schedule events', async () => {
+      const events: TraceEvent<number>[] = [];
+      const schedule = adaptive({ min: 3 });
+
+      const items = batch(slowFetch(1), 'id', {
+        schedule,
+        trace: (event) => events.push(event),
+      });
+      await items.get(1);
+
+      const scheduled = events.find((e) => e.type === 'schedule');
+      expect(scheduled).toMatchObject({ trigger: 'scheduler', window: 3 });
+    });
+
+    it('should reject invalid bounds', () => {
+      expect(() => adaptive({ min: 10, max: 5 })).toThrow();
+      expect(() => adaptive({ smoothing: 0 })).toThrow();
+    });
+  });
+
   describe('scheduler cleanup', () => {
     it('should call cleanup when abort is called before dispatch', async () => {
       let cleanupCalled = false;
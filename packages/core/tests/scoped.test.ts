@@ -0,0 +1,101 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  BatchError,
+  batch,
+  createScope,
+  scoped,
+  type TraceEvent,
+  withScope,
+} from '../src';
+
+function users(trace?: (event: TraceEvent<number>) => void) {
+  const fn = mock(async (keys: number[]) => {
+    await new Promise((r) => setTimeout(r, 5));
+    return keys.map((k) => ({ id: k }));
+  });
+  const items = scoped(() =>
+    batch(fn, 'id', { name: 'users', cache: true, trace }),
+  );
+  return { fn, items };
+}
+
+describe('scoped', () => {
+  it('should share one batcher within a scope', async () => {
+    const { fn, items } = users();
+
+    await withScope(async () => {
+      await Promise.all([items.get(1), items.get(2)]);
+      await items.get(1);
+    });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not share dedup or cache across scopes', async () => {
+    const { fn, items } = users();
+
+    await Promise.all([
+      withScope(() => items.get(1)),
+      withScope(() => items.get(1)),
+    ]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow the scope across awaits', async () => {
+    const { fn, items } = users();
+
+    await withScope(async () => {
+      await items.get(1);
+      await new Promise((r) => setTimeout(r, 1));
+      await items.get(1);
+    });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject outside a scope', async () => {
+    const { items } = users();
+
+    await expect(items.get(1)).rejects.toBeInstanceOf(BatchError);
+  });
+
+  it('should include the scope ID in the name and batch IDs', async () => {
+    const events: TraceEvent<number>[] = [];
+    const { items } = users((event) => events.push(event));
+
+    await withScope(async () => {
+      expect(items.name).toBe('users@req-1');
+      await items.get(1);
+    }, 'req-1');
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'dispatch', batchId: 'users@req-1-1' }),
+    );
+  });
+
+  it('should abort pending requests when the scope is disposed', async () => {
+    const { items } = users();
+    const scope = createScope();
+
+    const promise = scope.run(() => items.get(1));
+    scope.dispose();
+
+    await expect(promise).rejects.toThrow('Aborted');
+    expect(scope.disposed).toBe(true);
+    await expect(scope.run(() => items.get(1))).rejects.toThrow(
+      'has been disposed',
+    );
+  });
+
+  it('should resolve an explicit scope with in()', async () => {
+    const { fn, items } = users();
+    const scope = createScope();
+
+    await Promise.all([items.in(scope).get(1), items.in(scope).get(2)]);
+
+    expect(items.in(scope)).toBe(items.in(scope));
+    expect(fn).toHaveBeenCalledTimes(1);
+    scope.dispose();
+  });
+});
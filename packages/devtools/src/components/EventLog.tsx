@@ -32,10 +32,17 @@ const baseEventTypeStyle: JSX.CSSProperties = {
 const eventTypeColors: Record<TraceEventType, string> = {
   get: '#60a5fa',
   dedup: '#c084fc',
+  'cache-hit': '#34d399',
+  'cache-miss': '#fb923c',
   schedule: '#fbbf24',
   dispatch: '#22d3ee',
   resolve: '#4ade80',
   error: '#f87171',
+  partial: '#fca5a5',
+  retry: '#f472b6',
+  timeout: '#ef4444',
+  circuit: '#e879f9',
+  transport: '#2dd4bf',
   abort: '#a8a29e',
 };
 
@@ -64,20 +71,45 @@ export const EventLog: Component<EventLogProps> = (props) => {
     return seconds.toFixed(3) + 's';
   };
 
+  const formatGroup = (group?: string) =>
+    group !== undefined ? ` [${group}]` : '';
+
   const getEventDetails = (event: TraceEvent): string => {
     switch (event.type) {
       case 'get':
-        return `key: ${String(event.key)}`;
+        return event.priority === 'normal'
+          ? `key: ${String(event.key)}`
+          : `key: ${String(event.key)} (${event.priority})`;
       case 'dedup':
-        return `key: ${String(event.key)} (dedup)`;
+        return event.batchId
+          ? `key: ${String(event.key)} (joined ${event.batchId})`
+          : `key: ${String(event.key)} (dedup)`;
+      case 'cache-hit':
+        return `key: ${String(event.key)} (cached)`;
+      case 'cache-miss':
+        return `key: ${String(event.key)}`;
       case 'schedule':
-        return `batch: ${event.batchId}, size: ${event.size}`;
+        return event.window !== undefined
+          ? `batch: ${event.batchId}${formatGroup(event.group)}, size: ${event.size} (${event.trigger}, window ${event.window.toFixed(1)}ms)`
+          : `batch: ${event.batchId}${formatGroup(event.group)}, size: ${event.size} (${event.trigger})`;
       case 'dispatch':
-        return `batch: ${event.batchId}, keys: [${event.keys.map(String).join(', ')}]`;
+        return `batch: ${event.batchId}${formatGroup(event.group)}, keys: [${event.keys.map(String).join(', ')}]`;
       case 'resolve':
         return `batch: ${event.batchId}, ${event.duration.toFixed(1)}ms`;
       case 'error':
         return `batch: ${event.batchId}, ${event.error.message}`;
+      case 'partial':
+        return `batch: ${event.batchId}, ${event.failed} failed, ${event.missing} missing of ${event.total}`;
+      case 'retry':
+        return `batch: ${event.batchId}, attempt ${event.attempt} in ${event.delay.toFixed(0)}ms${event.error ? `, ${event.error.message}` : ' (missing keys)'}`;
+      case 'timeout':
+        return event.key !== undefined
+          ? `key: ${String(event.key)} after ${event.timeout}ms`
+          : `batch: ${event.batchId} after ${event.timeout}ms`;
+      case 'circuit':
+        return `${event.previous} → ${event.state}`;
+      case 'transport':
+        return `batch: ${event.batchId}, transport: ${event.transportId}`;
       case 'abort':
         return `batch: ${event.batchId}`;
       default:
@@ -76,12 +76,15 @@ function createDevtoolsRegistry(): DevtoolsRegistry {
       const newBatches = new Map(prev.batches);
 
       if (fullEvent.type === 'schedule') {
+        // A batch that fills up before its scheduler fires is scheduled again
+        // with the `size` trigger; keep the time it was first scheduled.
+        const existing = newBatches.get(fullEvent.batchId);
         const batchInfo: BatchInfo = {
           batchId: fullEvent.batchId,
           batcherName,
           keys: [],
           status: 'scheduled',
-          scheduledAt: fullEvent.timestamp,
+          scheduledAt: existing?.scheduledAt ?? fullEvent.timestamp,
         };
         newBatches.set(fullEvent.batchId, batchInfo);
       }
@@ -122,6 +125,21 @@ function createDevtoolsRegistry(): DevtoolsRegistry {
         }
       }
 
+      // Caller timeouts leave the batch running; only chunk timeouts end it.
+      if (fullEvent.type === 'timeout' && fullEvent.key === undefined) {
+        const existing = fullEvent.batchId
+          ? newBatches.get(fullEvent.batchId)
+          : undefined;
+        if (existing) {
+          newBatches.set(existing.batchId, {
+            ...existing,
+            status: 'error',
+            completedAt: fullEvent.timestamp,
+            error: new Error(`Timed out after ${fullEvent.timeout}ms`),
+          });
+        }
+      }
+
       if (fullEvent.type === 'abort') {
         const existing = newBatches.get(fullEvent.batchId);
         if (existing) {
@@ -1,10 +1,17 @@
 export type TraceEventType =
   | 'get'
   | 'dedup'
+  | 'cache-hit'
+  | 'cache-miss'
   | 'schedule'
   | 'dispatch'
   | 'resolve'
   | 'error'
+  | 'partial'
+  | 'retry'
+  | 'timeout'
+  | 'circuit'
+  | 'transport'
   | 'abort';
 
 export interface TraceEventBase {
@@ -16,23 +23,39 @@ export interface TraceEventBase {
 export interface GetEvent extends TraceEventBase {
   type: 'get';
   key: unknown;
+  priority: 'high' | 'normal' | 'low';
 }
 
 export interface DedupEvent extends TraceEventBase {
   type: 'dedup';
   key: unknown;
+  batchId?: string;
+}
+
+export interface CacheHitEvent extends TraceEventBase {
+  type: 'cache-hit';
+  key: unknown;
+}
+
+export interface CacheMissEvent extends TraceEventBase {
+  type: 'cache-miss';
+  key: unknown;
 }
 
 export interface ScheduleEvent extends TraceEventBase {
   type: 'schedule';
   batchId: string;
   size: number;
+  trigger: 'scheduler' | 'size' | 'priority' | 'deadline' | 'round';
+  window?: number;
+  group?: string;
 }
 
 export interface DispatchEvent extends TraceEventBase {
   type: 'dispatch';
   batchId: string;
   keys: unknown[];
+  group?: string;
 }
 
 export interface ResolveEvent extends TraceEventBase {
@@ -47,6 +70,42 @@ export interface ErrorEvent extends TraceEventBase {
   error: Error;
 }
 
+export interface PartialEvent extends TraceEventBase {
+  type: 'partial';
+  batchId: string;
+  failed: number;
+  missing: number;
+  total: number;
+}
+
+export interface RetryEvent extends TraceEventBase {
+  type: 'retry';
+  batchId: string;
+  attempt: number;
+  keys: unknown[];
+  delay: number;
+  error?: Error;
+}
+
+export interface TimeoutEvent extends TraceEventBase {
+  type: 'timeout';
+  timeout: number;
+  batchId?: string;
+  key?: unknown;
+}
+
+export interface CircuitEvent extends TraceEventBase {
+  type: 'circuit';
+  state: 'closed' | 'open' | 'half-open';
+  previous: 'closed' | 'open' | 'half-open';
+}
+
+export interface TransportEvent extends TraceEventBase {
+  type: 'transport';
+  batchId: string;
+  transportId: string;
+}
+
 export interface AbortEvent extends TraceEventBase {
   type: 'abort';
   batchId: string;
@@ -55,10 +114,17 @@ export interface AbortEvent extends TraceEventBase {
 export type TraceEvent =
   | GetEvent
   | DedupEvent
+  | CacheHitEvent
+  | CacheMissEvent
   | ScheduleEvent
   | DispatchEvent
   | ResolveEvent
   | ErrorEvent
+  | PartialEvent
+  | RetryEvent
+  | TimeoutEvent
+  | CircuitEvent
+  | TransportEvent
   | AbortEvent;
 
 export interface BatcherInfo {